@@ -34,6 +34,24 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="decisions"
+        options={{
+          title: "Decisions",
+          tabBarIcon: ({ color }) => (
+            <IconSymbol size={28} name="list.bullet" color={color} />
+          ),
+        }}
+      />
+      <Tabs.Screen
+        name="benchmark"
+        options={{
+          title: "Benchmark",
+          tabBarIcon: ({ color }) => (
+            <IconSymbol size={28} name="speedometer" color={color} />
+          ),
+        }}
+      />
     </Tabs>
   );
 }
@@ -0,0 +1,151 @@
+import { useCerbos, useCerbosStats } from "@/components/CerbosContext";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { percentile } from "@/components/Metrics";
+import { principals, resources } from "@/constants/data";
+
+import { useState } from "react";
+import { Button, ScrollView, StyleSheet } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+// Number of concurrent checks fired per benchmark run
+const REQUEST_COUNTS = [10, 100, 500];
+
+interface BenchmarkResult {
+  requests: number; // Number of checks fired
+  failures: number; // Number of checks that rejected
+  totalMs: number; // Wall-clock time until every check settled
+  throughput: number; // Checks completed per second
+  avgMs: number; // Mean round-trip latency
+  p95Ms: number; // 95th percentile round-trip latency
+}
+
+export default function BenchmarkScreen() {
+  const { checkResources, isLoaded } = useCerbos(); // Access Cerbos context
+  const stats = useCerbosStats(); // Live metrics of the PDP bridge
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<BenchmarkResult | null>(null);
+
+  // Fire `count` checks at once and measure their latency and overall throughput
+  const runBenchmark = async (count: number) => {
+    setRunning(true);
+    setResult(null);
+
+    const latencies: number[] = [];
+    let failures = 0;
+    const startedAt = Date.now();
+
+    await Promise.all(
+      Array.from({ length: count }, async (_, i) => {
+        const sample = resources[i % resources.length];
+        const requestStartedAt = Date.now();
+        try {
+          await checkResources({
+            principal: principals[i % principals.length],
+            // Unique IDs so that identical requests are not coalesced or cached
+            resources: [
+              {
+                resource: { ...sample, id: `${sample.id}-bench-${i}` },
+                actions: ["create", "read", "update", "delete"],
+              },
+            ],
+          });
+        } catch {
+          failures++;
+        }
+        latencies.push(Date.now() - requestStartedAt);
+      })
+    );
+
+    const totalMs = Date.now() - startedAt;
+    latencies.sort((a, b) => a - b);
+    const benchmarkResult: BenchmarkResult = {
+      requests: count,
+      failures,
+      totalMs,
+      throughput: Math.round((count / Math.max(totalMs, 1)) * 1000),
+      avgMs: Math.round(
+        latencies.reduce((sum, latency) => sum + latency, 0) / count
+      ),
+      p95Ms: percentile(latencies, 0.95),
+    };
+    console.log("[App] Benchmark result:", JSON.stringify(benchmarkResult));
+    setResult(benchmarkResult);
+    setRunning(false);
+  };
+
+  return (
+    <ScrollView style={{ flex: 1 }}>
+      <SafeAreaView>
+        <ThemedView style={styles.titleContainer}>
+          <ThemedText type="title">ePDP Benchmark</ThemedText>
+        </ThemedView>
+
+        <ThemedView style={styles.stepContainer}>
+          {REQUEST_COUNTS.map((count) => (
+            <Button
+              key={count}
+              title={`Run ${count} checks`}
+              onPress={() => runBenchmark(count)}
+              disabled={!isLoaded || running}
+            />
+          ))}
+          {!isLoaded && <ThemedText>Loading Cerbos PDP...</ThemedText>}
+          {running && <ThemedText>Running...</ThemedText>}
+        </ThemedView>
+
+        {result && (
+          <ThemedView style={styles.stepContainer}>
+            <ThemedText>Requests: {result.requests}</ThemedText>
+            <ThemedText>Failures: {result.failures}</ThemedText>
+            <ThemedText>Total time: {result.totalMs}ms</ThemedText>
+            <ThemedText>Throughput: {result.throughput} checks/s</ThemedText>
+            <ThemedText>Average latency: {result.avgMs}ms</ThemedText>
+            <ThemedText>p95 latency: {result.p95Ms}ms</ThemedText>
+          </ThemedView>
+        )}
+
+        {/* Metrics collected by the provider across every check */}
+        <ThemedView style={styles.stepContainer}>
+          <ThemedText type="subtitle">Bridge metrics</ThemedText>
+          <ThemedText>Queue depth: {stats.queueDepth}</ThemedText>
+          <ThemedText>
+            Requests: {stats.totalRequests} ({stats.failedRequests} failed,{" "}
+            {stats.timedOutRequests} timed out)
+          </ThemedText>
+          <ThemedText>Batches sent: {stats.batchesSent}</ThemedText>
+          <ThemedText>
+            Latency p50/p95/p99: {stats.latencyMs.p50}/{stats.latencyMs.p95}/
+            {stats.latencyMs.p99}ms
+          </ThemedText>
+          {stats.bundleLoadMs !== undefined && (
+            <ThemedText>
+              Bundle: {stats.bundleSizeBytes} bytes loaded in{" "}
+              {stats.bundleLoadMs}ms
+            </ThemedText>
+          )}
+          <ThemedText>
+            Bundle checks: {stats.bundleDownloads} downloaded,{" "}
+            {stats.bundleNotModified} not modified,{" "}
+            {stats.bundleBytesTransferred} bytes transferred
+          </ThemedText>
+        </ThemedView>
+      </SafeAreaView>
+    </ScrollView>
+  );
+}
+
+// Styles for the component
+const styles = StyleSheet.create({
+  titleContainer: {
+    flexDirection: "row",
+    gap: 8,
+    padding: 16,
+  },
+  stepContainer: {
+    gap: 8,
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 8,
+  },
+});
@@ -0,0 +1,179 @@
+import { useRecentDecisions } from "@/components/CerbosContext";
+import {
+  DecisionLogQuery,
+  RecentDecision,
+  decisionRows,
+  matchesQuery,
+  toJSONL,
+} from "@/components/DecisionLogBuffer";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useThemeColor } from "@/hooks/useThemeColor";
+
+import { useMemo, useState } from "react";
+import {
+  Button,
+  FlatList,
+  Modal,
+  ScrollView,
+  Share,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+// Effects the list can be narrowed to
+const EFFECTS: (DecisionLogQuery["effect"] | undefined)[] = [
+  undefined,
+  "allow",
+  "deny",
+];
+
+export default function DecisionsScreen() {
+  const decisions = useRecentDecisions(); // Recent decisions, oldest first
+  const [query, setQuery] = useState<DecisionLogQuery>({});
+  const [selected, setSelected] = useState<RecentDecision | null>(null);
+  const textColor = useThemeColor({}, "text");
+
+  // Newest decisions first, narrowed by the filters
+  const filtered = useMemo(
+    () => decisions.filter(({ entry }) => matchesQuery(entry, query)).reverse(),
+    [decisions, query]
+  );
+
+  // Share the listed decisions as JSON Lines, e.g. to attach them to a bug report
+  const exportDecisions = () => {
+    Share.share({ message: toJSONL([...filtered].reverse()) }).catch((err) =>
+      console.error("[App] Failed to share decisions:", err)
+    );
+  };
+
+  const filterInput = (
+    field: "principal" | "kind" | "action",
+    placeholder: string
+  ) => (
+    <TextInput
+      style={[styles.input, { color: textColor, borderColor: textColor }]}
+      placeholder={placeholder}
+      placeholderTextColor="#687076"
+      autoCapitalize="none"
+      autoCorrect={false}
+      value={query[field] ?? ""}
+      onChangeText={(text) => setQuery({ ...query, [field]: text })}
+    />
+  );
+
+  return (
+    <SafeAreaView style={{ flex: 1 }}>
+      <ThemedView style={styles.titleContainer}>
+        <ThemedText type="title">Decisions</ThemedText>
+      </ThemedView>
+
+      <ThemedView style={styles.filters}>
+        {filterInput("principal", "Principal")}
+        {filterInput("kind", "Resource kind")}
+        {filterInput("action", "Action")}
+        <ThemedView style={styles.row}>
+          {EFFECTS.map((effect) => (
+            <Button
+              key={effect ?? "any"}
+              title={effect ?? "any"}
+              onPress={() => setQuery({ ...query, effect })}
+              disabled={query.effect === effect}
+            />
+          ))}
+          <Button
+            title="Export"
+            onPress={exportDecisions}
+            disabled={filtered.length === 0}
+          />
+        </ThemedView>
+        <ThemedText>
+          {filtered.length} of {decisions.length} decisions
+        </ThemedText>
+      </ThemedView>
+
+      <FlatList
+        data={filtered}
+        keyExtractor={({ entry }) => entry.callId}
+        renderItem={({ item }) => (
+          <TouchableOpacity onPress={() => setSelected(item)}>
+            <ThemedView style={styles.item}>
+              <ThemedText type="defaultSemiBold">
+                {new Date(item.entry.timestamp).toLocaleTimeString()}
+              </ThemedText>
+              {decisionRows(item.entry).map((row, i) => (
+                <ThemedText key={i}>
+                  {row.principalId} {row.action} {row.kind}
+                  {row.resourceId ? `:${row.resourceId}` : ""} → {row.effect}
+                </ThemedText>
+              ))}
+            </ThemedView>
+          </TouchableOpacity>
+        )}
+      />
+
+      {/* Full input and output of the selected decision */}
+      <Modal
+        visible={selected !== null}
+        animationType="slide"
+        onRequestClose={() => setSelected(null)}
+      >
+        <SafeAreaView style={{ flex: 1 }}>
+          <ThemedView style={[styles.filters, { flex: 1 }]}>
+            <Button title="Close" onPress={() => setSelected(null)} />
+            {selected && (
+              <ScrollView>
+                <ThemedText type="subtitle">
+                  Call {selected.entry.callId}
+                </ThemedText>
+                <ThemedText>
+                  Policy commit: {selected.commit ?? "none (fallback)"}
+                </ThemedText>
+                <ThemedText style={styles.code}>
+                  {JSON.stringify(selected.entry.method, null, 2)}
+                </ThemedText>
+              </ScrollView>
+            )}
+          </ThemedView>
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+// Styles for the component
+const styles = StyleSheet.create({
+  titleContainer: {
+    flexDirection: "row",
+    gap: 8,
+    padding: 16,
+  },
+  filters: {
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  item: {
+    gap: 4,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  code: {
+    fontFamily: "SpaceMono",
+    fontSize: 12,
+    lineHeight: 16,
+  },
+});
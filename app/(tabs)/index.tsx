@@ -1,24 +1,27 @@
-import { useCerbos } from "@/components/CerbosContext";
+import { Can } from "@/components/Can";
+import { useCerbos, useCheckResources } from "@/components/CerbosContext";
 import { PrincipalPicker } from "@/components/PrincipalPicker";
 import { ResourcePicker } from "@/components/ResourcePicker";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { principals, resources } from "@/constants/data";
-import {
-  CheckResourcesResponse,
-  Principal,
-  Resource,
-} from "@cerbos/core/src/types/external";
+import { Resource } from "@cerbos/core/src/types/external";
 
 import { useEffect, useState } from "react";
 import { Button, ScrollView, StyleSheet } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
 export default function HomeScreen() {
-  const { isLoaded, metadata } = useCerbos(); // Access Cerbos context
-  const [principal, setPrincipal] = useState<Principal>(principals[0]); // Selected principal
+  const { isLoaded, metadata, principal, setPrincipal } = useCerbos(); // Access Cerbos context
   const [resource, setResource] = useState<Resource>(resources[0]); // Selected resource
 
+  // Sign in as the first sample principal; checks below use the provider's current principal
+  useEffect(() => {
+    if (!principal) {
+      setPrincipal(principals[0]);
+    }
+  }, [principal, setPrincipal]);
+
   return (
     <ScrollView style={{ flex: 1 }}>
       <SafeAreaView>
@@ -28,7 +31,7 @@ export default function HomeScreen() {
 
         {/* Dropdowns for selecting principal and resource */}
         <ThemedView style={styles.dropdownContainer}>
-          <PrincipalPicker principal={principal} setPrincipal={setPrincipal} />
+          <PrincipalPicker />
           <ResourcePicker resource={resource} setResource={setResource} />
         </ThemedView>
 
@@ -37,11 +40,26 @@ export default function HomeScreen() {
 
         {/* Authorization check example */}
         <SampleAuthCheck
-          principal={principal}
           resource={resource}
           actions={["create", "read", "update", "delete"]}
         />
 
+        {/* Declarative permission gate example */}
+        <ThemedView style={styles.stepContainer}>
+          <Can
+            resource={resource}
+            action="delete"
+            placeholder={<ThemedText>Checking delete access...</ThemedText>}
+            fallback={
+              <ThemedText style={styles.deniedText}>
+                {principal?.id} cannot delete {resource.id}
+              </ThemedText>
+            }
+          >
+            <Button title={`Delete ${resource.id}`} onPress={() => {}} />
+          </Can>
+        </ThemedView>
+
         {/* Display PDP load timestamp */}
         {metadata && (
           <>
@@ -60,49 +78,30 @@ export default function HomeScreen() {
 
 // Component to perform and display authorization checks
 function SampleAuthCheck({
-  principal,
   resource,
   actions,
 }: {
-  principal: Principal;
   resource: Resource;
   actions: string[];
 }) {
-  const { checkResources, isLoaded } = useCerbos(); // Access Cerbos context
-  const [result, setResult] = useState<CheckResourcesResponse | null>(null);
-
-  // Function to check permissions
-  const checkAccess = async () => {
-    try {
-      const result = await checkResources({
-        principal,
-        resources: [{ resource, actions }],
-      });
-      console.log("[App] Auth check result:", JSON.stringify(result));
-      setResult(result);
-    } catch (err) {
-      console.error("[App] Auth check failed:", err);
-      setResult(null);
-    }
-  };
-
-  // Reset result when principal or resource changes
-  useEffect(() => {
-    setResult(null);
-  }, [principal, resource]);
+  // Re-runs automatically when the current principal, resource or policy bundle changes
+  const { response, loading, error } = useCheckResources({
+    resources: [{ resource, actions }],
+  });
 
   return (
     <ThemedView style={styles.stepContainer}>
-      <Button
-        title="Check Permissions"
-        onPress={checkAccess}
-        disabled={!isLoaded}
-      />
+      {loading && <ThemedText>Checking permissions...</ThemedText>}
+      {error && (
+        <ThemedText style={styles.deniedText}>
+          Auth check failed: {error.message}
+        </ThemedText>
+      )}
       {actions.map((action) => (
         <ThemedView style={styles.actionRow} key={action}>
           <ThemedText>{action}:</ThemedText>
-          {result ? (
-            result.isAllowed({ resource, action }) ? (
+          {response ? (
+            response.isAllowed({ resource, action }) ? (
               <ThemedText style={styles.allowedText}>Allowed</ThemedText>
             ) : (
               <ThemedText style={styles.deniedText}>Denied</ThemedText>
@@ -0,0 +1,336 @@
+import * as FileSystem from "expo-file-system";
+import { sha256Hex } from "./Sha256";
+
+// A policy bundle kept on the device
+export interface StoredBundle {
+  id: string; // Unique ID, also the bundle's file name in the store
+  uri: string; // Local file URI of the bundle
+  sizeBytes: number; // Size of the bundle file
+  etag: string | undefined; // ETag the server returned with the bundle
+  lastModified: string | undefined; // Last-Modified the server returned with the bundle
+  md5: string | undefined; // Hex MD5 digest computed natively, used to detect whether a download changed
+  digest: string | undefined; // Hex SHA-256 digest recorded when the bundle was downloaded and verified
+  commit: string | undefined; // Policy commit, known once the engine has loaded the bundle
+  downloadedAt: string; // ISO 8601 time the bundle was downloaded
+  failed: boolean; // True once the bundle failed to load; it is never activated automatically again
+}
+
+// Why a bundle was flagged as failed
+export type BundleFailureReason = "error" | "timeout";
+
+// Engine load errors recorded for a bundle's contents
+interface BundleFailure {
+  md5: string; // MD5 digest of the contents that failed to load
+  errors: number; // Load errors since the record was created
+  failedAt: number; // Time of the last error, in milliseconds since the epoch
+}
+
+// Contents of the store's manifest file
+interface BundleManifest {
+  activeId: string | undefined; // Bundle loaded into the engine
+  pinned: boolean; // True after a rollback, until unpinned; downloads are skipped meanwhile
+  bundles: Omit<StoredBundle, "uri">[]; // Newest first
+  failures?: BundleFailure[]; // Contents that failed to load, oldest first
+}
+
+// Number of load errors after which a download with the same contents is refused
+const REFUSE_AFTER_ERRORS = 2;
+// Time after which failures are forgotten, so a refused download is eventually retried
+const FAILURE_EXPIRY_MS = 24 * 60 * 60 * 1000;
+// Max number of failure records kept in the manifest
+const MAX_FAILURES = 20;
+
+// Keeps the last few policy bundles downloaded from a URL. Downloads are written to a
+// temporary file and only promoted once complete, so the last known-good bundle survives
+// an interrupted or bad download, and can be rolled back to if a new bundle fails to load.
+export class BundleStore {
+  private directory: string;
+  private manifest: Promise<BundleManifest> | undefined;
+  private lock: Promise<unknown> = Promise.resolve(); // Serializes manifest updates
+
+  public constructor(
+    url: string,
+    private maxBundles: number = 3
+  ) {
+    // One store per URL, so switching pdpUrl never loads a bundle from another source
+    this.directory = `${FileSystem.documentDirectory}cerbos-bundles/${sha256Hex(
+      url
+    ).slice(0, 16)}/`;
+  }
+
+  // Temporary file that downloads are written to before being promoted
+  public get downloadUri(): string {
+    return `${this.directory}download.tmp`;
+  }
+
+  // Create the store's directory if needed, before a download is written to it
+  public async prepare(): Promise<void> {
+    await FileSystem.makeDirectoryAsync(this.directory, {
+      intermediates: true,
+    });
+  }
+
+  // The bundle currently loaded into the engine
+  public async active(): Promise<StoredBundle | undefined> {
+    const { activeId, bundles } = await this.read();
+    const bundle = bundles.find(({ id }) => id === activeId);
+    return bundle && this.withUri(bundle);
+  }
+
+  // Whether a rollback pinned the active bundle
+  public async pinned(): Promise<boolean> {
+    return (await this.read()).pinned;
+  }
+
+  // Every stored bundle, newest first
+  public async list(): Promise<StoredBundle[]> {
+    return (await this.read()).bundles.map((bundle) => this.withUri(bundle));
+  }
+
+  // Move a complete download into the store and make it the active bundle, removing the
+  // oldest bundles beyond maxBundles. A download with contents the engine repeatedly failed
+  // to load is deleted instead, resolving to undefined, so a bad bundle served over and
+  // over is not reloaded until its failures expire.
+  public promote(
+    fileUri: string,
+    {
+      sizeBytes,
+      etag,
+      lastModified,
+      md5,
+      digest,
+    }: Pick<
+      StoredBundle,
+      "sizeBytes" | "etag" | "lastModified" | "md5" | "digest"
+    >
+  ): Promise<StoredBundle | undefined> {
+    return this.update(async (manifest) => {
+      const failure = activeFailures(manifest).find(
+        (failed) => failed.md5 === md5
+      );
+      if (failure && failure.errors >= REFUSE_AFTER_ERRORS) {
+        await FileSystem.deleteAsync(fileUri, { idempotent: true });
+        return [manifest, undefined];
+      }
+      const downloadedAt = new Date().toISOString();
+      const id = `${Date.now()}.wasm`;
+      await FileSystem.moveAsync({ from: fileUri, to: this.directory + id });
+
+      const bundle = {
+        id,
+        sizeBytes,
+        etag,
+        lastModified,
+        md5,
+        digest,
+        commit: undefined,
+        downloadedAt,
+        failed: false,
+      };
+      const bundles = [bundle, ...manifest.bundles];
+      // The previous active bundle and the newest bundle that has not failed are kept
+      // whatever their age, so there is always one to fall back to if the new bundle fails
+      const keptIds = new Set(
+        [
+          id,
+          manifest.activeId,
+          manifest.bundles.find((stored) => !stored.failed)?.id,
+        ].filter((keptId) => keptId !== undefined)
+      );
+      for (const stored of bundles) {
+        if (keptIds.size >= this.maxBundles) {
+          break;
+        }
+        keptIds.add(stored.id);
+      }
+      const kept = bundles.filter((stored) => keptIds.has(stored.id));
+      await Promise.all(
+        bundles
+          .filter((stored) => !keptIds.has(stored.id))
+          .map(({ id }) =>
+            FileSystem.deleteAsync(this.directory + id, { idempotent: true })
+          )
+      );
+      return [
+        { ...manifest, activeId: id, bundles: kept },
+        this.withUri(bundle),
+      ];
+    });
+  }
+
+  // Record that the engine loaded a bundle, with its policy commit. Bundles with the same
+  // contents are no longer treated as failed.
+  public async markLoaded(
+    id: string,
+    commit: string | undefined
+  ): Promise<void> {
+    await this.update(async (manifest) => {
+      const md5 = manifest.bundles.find((bundle) => bundle.id === id)?.md5;
+      const sameContents = (bundle: Omit<StoredBundle, "uri">) =>
+        bundle.id === id || (md5 !== undefined && bundle.md5 === md5);
+      return [
+        {
+          ...manifest,
+          bundles: manifest.bundles.map((bundle) =>
+            sameContents(bundle)
+              ? {
+                  ...bundle,
+                  commit: bundle.id === id ? commit : bundle.commit,
+                  failed: false,
+                }
+              : bundle
+          ),
+          failures: manifest.failures?.filter((failure) => failure.md5 !== md5),
+        },
+        undefined,
+      ];
+    });
+  }
+
+  // Flag a bundle that failed to load and activate the newest bundle that has not failed,
+  // returning it, or undefined if there is none. Load errors reported by the engine are
+  // counted against the bundle's contents, unless there is no other bundle to fall back to.
+  public markFailed(
+    id: string,
+    reason: BundleFailureReason
+  ): Promise<StoredBundle | undefined> {
+    return this.update(async (manifest) => {
+      const bundles = manifest.bundles.map((bundle) =>
+        bundle.id === id ? { ...bundle, failed: true } : bundle
+      );
+      const fallback = bundles.find((bundle) => !bundle.failed);
+      const md5 = manifest.bundles.find((bundle) => bundle.id === id)?.md5;
+      const failures =
+        reason === "error" && md5 !== undefined && fallback
+          ? recordFailure(activeFailures(manifest), md5)
+          : manifest.failures;
+      if (manifest.activeId !== id) {
+        return [{ ...manifest, bundles, failures }, undefined];
+      }
+      return [
+        { ...manifest, activeId: fallback?.id, bundles, failures },
+        fallback && this.withUri(fallback),
+      ];
+    });
+  }
+
+  // Delete a bundle, e.g. one whose file was corrupted on the device. If it was active, the
+  // newest bundle that has not failed is activated instead, so the next check downloads the
+  // latest bundle again.
+  public async remove(id: string): Promise<void> {
+    await this.update(async (manifest) => {
+      await FileSystem.deleteAsync(this.directory + id, { idempotent: true });
+      const bundles = manifest.bundles.filter((bundle) => bundle.id !== id);
+      const activeId =
+        manifest.activeId === id
+          ? bundles.find((bundle) => !bundle.failed)?.id
+          : manifest.activeId;
+      return [{ ...manifest, activeId, bundles }, undefined];
+    });
+  }
+
+  // Activate an older bundle and pin it, so downloads are skipped until unpin is called.
+  // Without an ID, the newest bundle older than the active one that has not failed is used.
+  public rollback(id?: string): Promise<StoredBundle> {
+    return this.update(async (manifest) => {
+      const activeIndex = manifest.bundles.findIndex(
+        (bundle) => bundle.id === manifest.activeId
+      );
+      const target =
+        id === undefined
+          ? manifest.bundles
+              .slice(activeIndex + 1)
+              .find((bundle) => !bundle.failed)
+          : manifest.bundles.find((bundle) => bundle.id === id);
+      if (!target) {
+        throw new Error(
+          id === undefined
+            ? "No older policy bundle to roll back to"
+            : `No stored policy bundle with ID ${id}`
+        );
+      }
+      return [
+        { ...manifest, activeId: target.id, pinned: true },
+        this.withUri(target),
+      ];
+    });
+  }
+
+  // Resume downloading new bundles after a rollback
+  public async unpin(): Promise<void> {
+    await this.update(async (manifest) => [
+      { ...manifest, pinned: false },
+      undefined,
+    ]);
+  }
+
+  private get manifestUri(): string {
+    return `${this.directory}manifest.json`;
+  }
+
+  private get temporaryManifestUri(): string {
+    return `${this.manifestUri}.tmp`;
+  }
+
+  private withUri(bundle: Omit<StoredBundle, "uri">): StoredBundle {
+    return { ...bundle, uri: this.directory + bundle.id };
+  }
+
+  // Load the manifest once, starting empty if the store is new or the manifest is unreadable.
+  // Falls back to the temporary manifest, which is complete if a crash interrupted an update
+  // after the old manifest was deleted.
+  private read(): Promise<BundleManifest> {
+    if (!this.manifest) {
+      const load = (uri: string) =>
+        FileSystem.readAsStringAsync(uri).then(
+          (contents) => JSON.parse(contents) as BundleManifest
+        );
+      this.manifest = load(this.manifestUri)
+        .catch(() => load(this.temporaryManifestUri))
+        .catch(() => ({ activeId: undefined, pinned: false, bundles: [] }));
+    }
+    return this.manifest;
+  }
+
+  // Apply a change to the manifest and write it, one change at a time
+  private update<T>(
+    change: (manifest: BundleManifest) => Promise<[BundleManifest, T]>
+  ): Promise<T> {
+    const result = this.lock.then(async () => {
+      await this.prepare();
+      const [manifest, value] = await change(await this.read());
+      // Write a temporary file and move it into place, so a crash never leaves a partial manifest
+      await FileSystem.writeAsStringAsync(
+        this.temporaryManifestUri,
+        JSON.stringify(manifest)
+      );
+      await FileSystem.deleteAsync(this.manifestUri, { idempotent: true });
+      await FileSystem.moveAsync({
+        from: this.temporaryManifestUri,
+        to: this.manifestUri,
+      });
+      this.manifest = Promise.resolve(manifest);
+      return value;
+    });
+    this.lock = result.catch(() => {});
+    return result;
+  }
+}
+
+// Failure records that have not expired
+function activeFailures({ failures = [] }: BundleManifest): BundleFailure[] {
+  const now = Date.now();
+  return failures.filter(({ failedAt }) => now - failedAt < FAILURE_EXPIRY_MS);
+}
+
+// Count a load error against a bundle's contents, keeping the newest MAX_FAILURES records
+function recordFailure(
+  failures: BundleFailure[],
+  md5: string
+): BundleFailure[] {
+  const previous = failures.find((failure) => failure.md5 === md5);
+  return [
+    ...failures.filter((failure) => failure !== previous),
+    { md5, errors: (previous?.errors ?? 0) + 1, failedAt: Date.now() },
+  ].slice(-MAX_FAILURES);
+}
@@ -0,0 +1,149 @@
+import { ed25519 } from "@noble/curves/ed25519";
+import { BundleVerificationError } from "./CerbosErrors";
+import { toHex } from "./Sha256";
+
+// Checks a downloaded policy bundle must pass before it is loaded into the engine
+export interface BundleVerificationOptions {
+  sha256?: string; // Pinned hex SHA-256 digest; only this exact bundle is accepted
+  digestHeader?: string; // Response header carrying the bundle's SHA-256 digest, as hex or `sha-256=<base64>`; downloads without it are rejected
+  publicKey?: string; // Ed25519 public key, base64 or PEM; downloads must then carry a valid signature
+  signatureHeader?: string; // Response header carrying the base64 Ed25519 signature of the bundle's raw SHA-256 digest (default: "X-Bundle-Signature")
+}
+
+// Values of the response headers named by the verification options
+export interface BundleVerificationHeaders {
+  digest: string | undefined;
+  signature: string | undefined;
+}
+
+// DER prefix of an Ed25519 SubjectPublicKeyInfo, followed by the 32-byte key
+const ED25519_SPKI_PREFIX = "302a300506032b6570032100";
+
+// Verify a downloaded bundle, given its raw SHA-256 digest, against the pinned digest, the
+// server-provided digest and the signature, returning the digest as hex
+export function verifyBundle(
+  digest: Uint8Array,
+  url: string,
+  options: BundleVerificationOptions,
+  headers: BundleVerificationHeaders
+): string {
+  const digestHex = toHex(digest);
+
+  if (options.digestHeader) {
+    const expected = headers.digest && parseDigest(headers.digest);
+    if (!expected) {
+      throw new BundleVerificationError("missing-digest", url);
+    }
+    if (expected !== digestHex) {
+      throw new BundleVerificationError("digest-mismatch", url, {
+        expected,
+        actual: digestHex,
+      });
+    }
+  }
+  verifyDigest(digestHex, url, options);
+
+  if (options.publicKey) {
+    if (!headers.signature) {
+      throw new BundleVerificationError("missing-signature", url);
+    }
+    const signature = tryBase64ToBytes(headers.signature);
+    if (
+      !signature ||
+      !verifySignature(parsePublicKey(options.publicKey), digest, signature)
+    ) {
+      throw new BundleVerificationError("invalid-signature", url);
+    }
+  }
+  return digestHex;
+}
+
+// Verify a cached bundle, given its hex SHA-256 digest, against the pinned digest and the
+// digest recorded when it was downloaded and verified, so a truncated or modified file is never loaded
+export function verifyCachedBundle(
+  digestHex: string,
+  url: string,
+  options: BundleVerificationOptions,
+  recordedDigest: string | null
+): void {
+  if (!options.sha256 && !recordedDigest) {
+    throw new BundleVerificationError("missing-digest", url);
+  }
+  if (recordedDigest && recordedDigest !== digestHex) {
+    throw new BundleVerificationError("digest-mismatch", url, {
+      expected: recordedDigest,
+      actual: digestHex,
+    });
+  }
+  verifyDigest(digestHex, url, options);
+}
+
+// Parse a digest header value: hex, or `sha-256=<base64>` as in the Digest and Repr-Digest headers
+export function parseDigest(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (/^[0-9a-f]{64}$/i.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+  const match = trimmed.match(/sha-256=:?([A-Za-z0-9+/=]+):?/i);
+  if (!match) {
+    return undefined;
+  }
+  const bytes = tryBase64ToBytes(match[1]);
+  return bytes?.length === 32 ? toHex(bytes) : undefined;
+}
+
+// Decode base64 to bytes
+export function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64.trim()), (char) => char.charCodeAt(0));
+}
+
+// Decode base64 from a response header, or undefined if it is malformed
+function tryBase64ToBytes(base64: string): Uint8Array | undefined {
+  try {
+    return base64ToBytes(base64);
+  } catch {
+    return undefined;
+  }
+}
+
+function verifyDigest(
+  digestHex: string,
+  url: string,
+  options: BundleVerificationOptions
+): void {
+  const pinned = options.sha256?.toLowerCase();
+  if (pinned && pinned !== digestHex) {
+    throw new BundleVerificationError("digest-mismatch", url, {
+      expected: pinned,
+      actual: digestHex,
+    });
+  }
+}
+
+// Whether `signature` is a valid Ed25519 signature of `message`, checked by the audited
+// @noble/curves with the strict RFC 8032 rules. Malformed keys and signatures are invalid.
+function verifySignature(
+  publicKey: Uint8Array,
+  message: Uint8Array,
+  signature: Uint8Array
+): boolean {
+  try {
+    return ed25519.verify(signature, message, publicKey, { zip215: false });
+  } catch {
+    return false;
+  }
+}
+
+// Raw 32-byte key from a base64 raw key or a PEM/base64 SubjectPublicKeyInfo
+function parsePublicKey(publicKey: string): Uint8Array {
+  const bytes = base64ToBytes(
+    publicKey.replace(/-----[A-Z ]+-----/g, "").replace(/\s/g, "")
+  );
+  if (
+    bytes.length === 44 &&
+    toHex(bytes.subarray(0, 12)) === ED25519_SPKI_PREFIX
+  ) {
+    return bytes.subarray(12);
+  }
+  return bytes;
+}
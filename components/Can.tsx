@@ -0,0 +1,70 @@
+import { ReactNode } from "react";
+import { Principal, Resource } from "@cerbos/core";
+import { useCheckResources } from "./CerbosContext";
+
+// Props shared by all permission gates
+interface PermissionGateProps {
+  principal?: Principal; // Principal performing the actions (default: the provider's current principal)
+  resource: Resource; // Resource the actions are performed on
+  fallback?: ReactNode; // Rendered when access is denied or the check fails (default: nothing)
+  placeholder?: ReactNode; // Rendered while the PDP is loading or the first check is in flight (default: nothing)
+  children: ReactNode; // Rendered when access is allowed
+}
+
+interface CanProps extends PermissionGateProps {
+  action: string; // Action that must be allowed
+}
+
+interface CanMultipleProps extends PermissionGateProps {
+  actions: string[]; // Actions to check
+}
+
+// Renders children based on whether the given actions are allowed.
+// `mode` controls whether any or all of the actions must be allowed.
+function PermissionGate({
+  principal,
+  resource,
+  actions,
+  mode,
+  fallback = null,
+  placeholder = null,
+  children,
+}: PermissionGateProps & { actions: string[]; mode: "any" | "all" }) {
+  const { response, loading, error } = useCheckResources({
+    principal,
+    resources: [{ resource, actions }],
+  });
+
+  // Show the placeholder only until the first decision. While re-checking, e.g. after a
+  // new bundle is loaded, the previous decision is kept so the gate does not flicker.
+  if (loading && !response && !error) {
+    return <>{placeholder}</>;
+  }
+
+  if (error || !response) {
+    // We could not reach a decision, so treat it the same as a denial
+    return <>{fallback}</>;
+  }
+
+  const isAllowed = (action: string) =>
+    response.isAllowed({ resource, action }) === true;
+  const allowed =
+    mode === "any" ? actions.some(isAllowed) : actions.every(isAllowed);
+
+  return <>{allowed ? children : fallback}</>;
+}
+
+// Renders children only if the principal may perform the action on the resource
+export function Can({ action, ...props }: CanProps) {
+  return <PermissionGate {...props} actions={[action]} mode="all" />;
+}
+
+// Renders children if the principal may perform at least one of the actions
+export function CanAny(props: CanMultipleProps) {
+  return <PermissionGate {...props} mode="any" />;
+}
+
+// Renders children only if the principal may perform every one of the actions
+export function CanAll(props: CanMultipleProps) {
+  return <PermissionGate {...props} mode="all" />;
+}
@@ -7,29 +7,113 @@ import React, {
   useMemo,
   useRef,
   useEffect,
+  useSyncExternalStore,
 } from "react";
-import CerbosEmbeddedPDPWebView from "./CerbosEmbeddedPDPWebView";
+import CerbosEmbeddedPDPWebView, {
+  CerbosEmbeddedPDPHandle,
+  EmbeddedEngineOptions,
+} from "./CerbosEmbeddedPDPWebView";
 import { CheckResourcesRequest } from "@cerbos/core/src/types/external/CheckResourcesRequest";
 import { CheckResourcesResponse as CheckResourcesResponsePB } from "@cerbos/embedded/lib/protobuf/cerbos/response/v1/response";
 import { CheckResourcesResponse } from "@cerbos/core/src/types/external/CheckResourcesResponse";
-import { checkResourcesResponseFromProtobuf } from "@cerbos/core/src/convert/fromProtobuf";
 import uuid from "react-native-uuid";
 import { View } from "react-native";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import NetInfo from "@react-native-community/netinfo";
 import * as FileSystem from "expo-file-system";
 import { ThemedView } from "./ThemedView";
 import { ThemedText } from "./ThemedText";
-import { BundleMetadata } from "@cerbos/embedded";
-import { DecisionLogEntry } from "@cerbos/core";
+import {
+  DecisionCache,
+  DecisionCacheOptions,
+  stableStringify,
+} from "./DecisionCache";
+import { PDPRequestQueue, RequestPriority } from "./PDPRequestQueue";
+import { InFlightRequest, waitForInFlight } from "./InFlightRequests";
+import {
+  BundleAuthorizationError,
+  BundleDownloadError,
+  BundleUnavailableOfflineError,
+  BundleVerificationError,
+  NoPrincipalError,
+  PDPAbortError,
+  PDPNotReadyError,
+} from "./CerbosErrors";
+import {
+  FallbackMode,
+  fallbackDecisionLogEntry,
+  fallbackResponse,
+  isFallbackDecisionLogEntry,
+} from "./FallbackDecisions";
+import { ResourceValidationError, validationErrorsOf } from "./ResponseHelpers";
+import {
+  base64ToBytes,
+  BundleVerificationOptions,
+  verifyBundle,
+  verifyCachedBundle,
+} from "./BundleVerification";
+import { createSha256, toHex } from "./Sha256";
+import { BundleFailureReason, BundleStore, StoredBundle } from "./BundleStore";
+import {
+  DecisionLogJournal,
+  DecisionLogShipper,
+  DecisionLogShipperOptions,
+} from "./DecisionLogShipper";
+import { createDecisionLogFilter, DecisionLogRules } from "./DecisionLogFilter";
+import { DecisionLogBuffer, RecentDecision } from "./DecisionLogBuffer";
+import { BundleTransfer, PDPMetrics } from "./Metrics";
+import {
+  consoleSink,
+  createLogger,
+  defaultLogLevel,
+  LogEvent,
+  Logger,
+  LoggerOptions,
+} from "./Logger";
+import { BundleMetadata, DecodeJWTPayload } from "@cerbos/embedded";
+import {
+  CheckResourcesResult,
+  AuxData,
+  DecisionLogEntry,
+  JWT,
+  Principal,
+  Resource,
+} from "@cerbos/core";
 
 // Define the shape of the context provided to consumers
 interface CerbosContextType {
   isLoaded: boolean; // Indicates if the PDP bundle has been loaded at least once
   metadata: PDPMetaData | undefined; // Timestamp of the last successful PDP bundle load
+  isFallback: boolean; // True while checks are decided by the fallbackMode because no bundle could be loaded
+  principal: Principal | undefined; // Principal used by requests that do not set one, e.g. the signed-in user
+  setPrincipal: (principal: Principal | undefined) => void; // Change the current principal, invalidating cached decisions
   checkResources: (
-    request: Omit<CheckResourcesRequest, "requestId">
+    request: CheckResourcesInput,
+    options?: CheckResourcesOptions
   ) => Promise<CheckResourcesResponse>; // Function to authorize resources
+  isAllowed: (
+    resource: Resource,
+    action: string,
+    options?: CheckResourcesOptions
+  ) => Promise<boolean>; // Function to check a single action for the current principal
+  getMetrics: () => PDPMetrics; // Snapshot of the bridge's counters, latency and bundle metrics
+  recentDecisions: DecisionLogBuffer; // Most recent decisions, for the decision log viewer
+  listBundles: () => Promise<StoredBundle[]>; // Policy bundles stored on the device, newest first
+  rollbackBundle: (bundleId?: string) => Promise<StoredBundle>; // Load an older stored bundle (default: the one before the active bundle) and pin it until unpinBundle is called
+  unpinBundle: () => Promise<void>; // Resume downloading bundle updates after a rollback
+}
+
+// A checkResources request; the principal defaults to the provider's current principal
+export type CheckResourcesInput = Omit<
+  CheckResourcesRequest,
+  "requestId" | "principal"
+> & { principal?: Principal };
+
+// Per-call options for checkResources
+export interface CheckResourcesOptions {
+  signal?: AbortSignal; // Cancels the check, rejecting it with a PDPAbortError
+  timeoutMs?: number; // Overrides the provider's requestTimeout for this call
+  retries?: number; // Number of times to retry after a failure or timeout (default: 0)
+  priority?: RequestPriority; // Order in which queued requests are sent (default: "normal")
 }
 
 type PDPMetaData = { updatedAt: string } & BundleMetadata;
@@ -38,9 +122,26 @@ type PDPMetaData = { updatedAt: string } & BundleMetadata;
 const CerbosContext = createContext<CerbosContextType>({
   isLoaded: false,
   metadata: undefined,
+  isFallback: false,
+  principal: undefined,
+  setPrincipal: () => {},
   checkResources: async () => {
     // Default implementation throws an error if used outside a provider
-    throw new Error("Cerbos PDP not initialized");
+    throw new PDPNotReadyError();
+  },
+  isAllowed: async () => {
+    throw new PDPNotReadyError();
+  },
+  getMetrics: () => {
+    throw new PDPNotReadyError();
+  },
+  recentDecisions: new DecisionLogBuffer(0),
+  listBundles: async () => [],
+  rollbackBundle: async () => {
+    throw new PDPNotReadyError();
+  },
+  unpinBundle: async () => {
+    throw new PDPNotReadyError();
   },
 });
 
@@ -48,466 +149,898 @@ const CerbosContext = createContext<CerbosContextType>({
 interface CerbosProviderProps {
   children: ReactNode; // Child components that will consume the context
   pdpUrl: string; // URL to fetch the policy bundle from
+  bundleVerification?: BundleVerificationOptions; // Digest and signature checks a bundle must pass before it is loaded (default: none)
+  onBundleVerificationError?: (error: BundleVerificationError) => void; // Called when a downloaded or cached bundle fails verification
+  requestHeaders?: Record<string, string>; // Headers sent with bundle downloads, e.g. an API key (default: none)
+  getRequestHeaders?: BundleHeadersProvider; // Headers added to bundle downloads, e.g. a bearer token; called with refresh: true after a 401 or 403, then retried once
+  onBundleAuthorizationError?: (error: BundleAuthorizationError) => void; // Called when the bundle server rejects the credentials, even after a refresh
   refreshIntervalSeconds?: number; // How often to check for bundle updates (default: 60s)
+  maxStoredBundles?: number; // Number of downloaded bundles kept on the device for rollback (default: 3)
+  bundleLoadTimeout?: number; // Max time the engine may take to load a new bundle before rolling back to the previous one (default: 15000ms)
   requestTimeout?: number; // Max time to wait for a checkResources response (default: 2000ms)
   batchInterval?: number; // Time to wait before sending a batch of requests (default: 50ms)
   maxBatchSize?: number; // Max number of requests per batch (default: 10)
   onDecision?: (decision: DecisionLogEntry) => void; // Callback for decision logs
+  decisionLog?: DecisionLogShipperOptions; // Keeps decision logs on the device and uploads them in batches (default: disabled)
+  decisionLogRules?: DecisionLogRules; // Redaction, exclusion and sampling applied before decision logs reach onDecision or decisionLog (default: none)
+  recentDecisionsSize?: number; // Number of decisions kept in memory for the decision log viewer, 0 to disable (default: 100 in development builds, 0 in release builds)
+  decisionCache?: DecisionCacheOptions; // Enables the in-memory decision cache; ignored while decisionLog is set (default: disabled)
+  whenNotReady?: "reject" | "queue"; // Reject checks made before the PDP is ready, or hold them until it is (default: "reject")
+  readyTimeout?: number; // Max time a held check waits for the PDP to become ready (default: 10000ms)
+  fallbackMode?: FallbackMode; // Decides checks when no policy bundle can be loaded (default: none, keep loading)
+  globals?: EmbeddedEngineOptions["globals"]; // Global variables available to policy conditions
+  defaultPolicyVersion?: string; // Policy version used when a request does not set one (default: "default")
+  lenientScopeSearch?: boolean; // Fall back to the nearest parent scope when a scoped policy is missing (default: false)
+  decodeJWTPayload?: DecodeJWTPayload; // Decodes JWTs passed in auxData, e.g. from createJWTDecoder (default: none, so requests carrying a JWT fail)
+  getAuxData?: () => AuxData | undefined | Promise<AuxData | undefined>; // Auxiliary data, e.g. the current session's JWT, merged into every request
+  onValidationError?: (
+    errors: ResourceValidationError[],
+    requestId: string
+  ) => void; // Callback for schema validation errors
+  onMetrics?: (metrics: PDPMetrics) => void; // Callback receiving a metrics snapshot every metricsIntervalMs
+  metricsIntervalMs?: number; // How often onMetrics is called (default: 60000ms)
+  logger?: LoggerOptions; // Level and destination of the provider's and WebView's logs (default: console, errors only in release builds)
 }
 
-// Structure to hold pending checkResources requests along with their promise handlers
-interface PendingRequest {
-  request: CheckResourcesRequest; // The original request data
-  resolve: (value: CheckResourcesResponse) => void; // Promise resolve function
-  reject: (reason?: any) => void; // Promise reject function
-  createdAt: number; // Timestamp when the request was created (for debugging/timeouts)
-}
-// Type for the state holding all pending requests, keyed by request ID
-export type PDPRequests = Record<string, PendingRequest>;
-
-// Type for the requests object passed to the WebView (serializable)
-export type SerializablePDPRequests = Record<string, CheckResourcesRequest>;
-
 // The CerbosProvider component manages the PDP lifecycle and request handling
 export const CerbosProvider: React.FC<CerbosProviderProps> = ({
   children,
   pdpUrl,
+  bundleVerification,
+  onBundleVerificationError,
+  requestHeaders,
+  getRequestHeaders,
+  onBundleAuthorizationError,
   refreshIntervalSeconds = 300,
+  maxStoredBundles = 3,
+  bundleLoadTimeout = 15000,
   requestTimeout = 2000,
   batchInterval = 50,
   maxBatchSize = 10,
   onDecision,
+  decisionLog,
+  decisionLogRules,
+  recentDecisionsSize = __DEV__ ? 100 : 0,
+  decisionCache,
+  whenNotReady = "reject",
+  readyTimeout = 10000,
+  fallbackMode,
+  globals,
+  defaultPolicyVersion,
+  lenientScopeSearch,
+  decodeJWTPayload,
+  onValidationError,
+  getAuxData,
+  onMetrics,
+  metricsIntervalMs = 60000,
+  logger,
 }) => {
+  // Logger shared with the queue and the WebView; the sink is read through a ref so an inline one does not rebuild it
+  const logLevel = logger?.level ?? defaultLogLevel;
+  const logSinkRef = useRef(logger?.sink ?? consoleSink);
+  logSinkRef.current = logger?.sink ?? consoleSink;
+  const log = useMemo(
+    () =>
+      createLogger("CerbosProvider", {
+        level: logLevel,
+        sink: (event) => logSinkRef.current(event),
+      }),
+    [logLevel]
+  );
+
   // State indicating if the WebView has loaded the initial PDP bundle
   const [isReady, setIsReady] = useState(false);
   // State storing the timestamp of the last successful PDP bundle load
   const [metadata, setMetadata] = useState<PDPMetaData | undefined>(undefined);
-  // State holding pending checkResources requests (including promise handlers)
-  const [requests, setRequests] = useState<PDPRequests>({});
-  // State holding the batch of requests currently being processed by the WebView
-  const [batchedRequests, setBatchedRequests] =
-    useState<SerializablePDPRequests>({});
 
-  const [pdpBase64, setPdpBase64] = useState<string | undefined>(undefined);
+  // Stored bundle loaded into the engine; the WebView reads its file itself
+  const [pdpBundle, setPdpBundle] = useState<StoredBundle | undefined>(
+    undefined
+  );
+  // State indicating that the initial policy bundle could not be downloaded or read
+  const [bundleUnavailable, setBundleUnavailable] = useState(false);
+  // Checks are decided by the fallback until a bundle has been loaded
+  const isFallback =
+    fallbackMode !== undefined && bundleUnavailable && !isReady;
+
+  // When the current bundle download started, consumed once the engine reports it loaded
+  const bundleLoadStartedAt = useRef<number | undefined>(undefined);
+  // Duration and size of the most recent bundle load
+  const bundleMetrics = useRef<{ loadMs?: number; sizeBytes?: number }>({});
+  // Outcomes of every bundle download since the provider mounted
+  const bundleTransfers = useRef({ downloads: 0, notModified: 0, bytes: 0 });
+
+  // Latest verification settings, read each time a bundle is fetched or read
+  const verificationRef = useRef({
+    bundleVerification,
+    onBundleVerificationError,
+  });
+  verificationRef.current = { bundleVerification, onBundleVerificationError };
+  // Latest credentials for the bundle URL, read each time a bundle is fetched
+  const credentialsRef = useRef({
+    requestHeaders,
+    getRequestHeaders,
+    onBundleAuthorizationError,
+  });
+  credentialsRef.current = {
+    requestHeaders,
+    getRequestHeaders,
+    onBundleAuthorizationError,
+  };
+
+  // Bundles downloaded from pdpUrl; the active one is loaded into the engine
+  const bundleStore = useMemo(
+    () => new BundleStore(pdpUrl, maxStoredBundles),
+    [pdpUrl, maxStoredBundles]
+  );
+  // Bundle passed to the WebView, compared with each stored bundle by MD5 digest
+  const currentBundle = useRef<StoredBundle | undefined>(undefined);
+  // Bundle passed to the WebView that the engine has not yet reported loaded
+  const pendingBundle = useRef<StoredBundle | undefined>(undefined);
+
+  // Verify a stored bundle, unless it was verified as it was downloaded, downloading the
+  // bundle again if its file was corrupted. Resolves to undefined if the bundle's contents
+  // are already loaded.
+  const selectBundle = async (
+    bundle: StoredBundle,
+    verified: boolean = false
+  ): Promise<StoredBundle | undefined> => {
+    if (sameContents(bundle, currentBundle.current)) {
+      return undefined;
+    }
+    const { bundleVerification, onBundleVerificationError } =
+      verificationRef.current;
+    try {
+      if (bundleVerification && !verified) {
+        await verifyStoredBundle(bundle, pdpUrl, bundleVerification);
+      }
+      return bundle;
+    } catch (error) {
+      if (!(error instanceof BundleVerificationError)) {
+        throw error;
+      }
+      log.error("Stored policy bundle failed verification", {
+        bundleId: bundle.id,
+        reason: error.reason,
+        ...error.digests,
+      });
+      onBundleVerificationError?.(error);
+      // The download was verified, so the file changed on the device: its contents are not
+      // flagged as failed, and the latest bundle is downloaded again without it
+      await bundleStore.remove(bundle.id);
+      log.warn("Deleted the corrupted policy bundle. Downloading it again.", {
+        bundleId: bundle.id,
+      });
+      return loadBundle();
+    }
+  };
+
+  // Download the bundle if it changed, then verify the active stored bundle
+  const loadBundle = async (): Promise<StoredBundle | undefined> => {
+    const { bundleVerification, onBundleVerificationError } =
+      verificationRef.current;
+    const { requestHeaders, getRequestHeaders, onBundleAuthorizationError } =
+      credentialsRef.current;
+    // Downloads that fail verification or authorization are reported by fetchAsset
+    let promoted: StoredBundle | undefined;
+    const bundle = await fetchAsset(pdpUrl, {
+      store: bundleStore,
+      headers: requestHeaders,
+      getHeaders: getRequestHeaders,
+      onAuthorizationError: onBundleAuthorizationError,
+      logger: log.withTag("fetchAsset"),
+      verification: bundleVerification,
+      onVerificationError: onBundleVerificationError,
+      onTransfer: ({ status, bytes }) => {
+        const transfers = bundleTransfers.current;
+        transfers.bytes += bytes;
+        if (status === 304) {
+          transfers.notModified++;
+        } else if (status >= 200 && status < 300) {
+          transfers.downloads++;
+        }
+      },
+      onPromoted: (stored) => {
+        promoted = stored;
+      },
+    });
+    log.debug("PDP bundle downloaded/verified", { bundleId: bundle.id });
+    // A bundle promoted by this check was verified from the download, so it is not read again
+    return selectBundle(bundle, bundle.id === promoted?.id);
+  };
+
+  // Pass a bundle to the WebView, which rebuilds the engine from it
+  const activateBundle = (bundle: StoredBundle, startedAt: number) => {
+    log.info("Loading policy bundle", {
+      bundleId: bundle.id,
+      sizeBytes: bundle.sizeBytes,
+    });
+    currentBundle.current = bundle;
+    pendingBundle.current = bundle;
+    bundleLoadStartedAt.current = startedAt;
+    setPdpBundle(bundle);
+  };
+
+  // Roll back to the previous stored bundle when the engine fails to load one
+  const handleBundleLoadFailure = async (
+    bundle: StoredBundle,
+    reason: BundleFailureReason,
+    error: string
+  ) => {
+    if (pendingBundle.current?.id !== bundle.id) {
+      return; // Loaded or replaced in the meantime
+    }
+    pendingBundle.current = undefined;
+    log.error("Policy bundle failed to load", { bundleId: bundle.id, error });
+    try {
+      const previous = await bundleStore.markFailed(bundle.id, reason);
+      if (!previous) {
+        log.error("No earlier policy bundle to roll back to.");
+        setBundleUnavailable(true);
+        return;
+      }
+      const selected = await selectBundle(previous);
+      if (selected) {
+        log.warn("Rolling back to the previous policy bundle", {
+          bundleId: selected.id,
+        });
+        activateBundle(selected, Date.now());
+      }
+    } catch (err) {
+      log.error("Error rolling back policy bundle", { error: err });
+      setBundleUnavailable(true);
+    }
+  };
+
+  // Latest failure handler, read when the load timeout fires
+  const handleBundleLoadFailureRef = useRef(handleBundleLoadFailure);
+  handleBundleLoadFailureRef.current = handleBundleLoadFailure;
+  // Latest bundle functions, read by the update checks and rollbackBundle so they always
+  // use the current store, verification settings and credentials
+  const bundleActionsRef = useRef({ loadBundle, selectBundle, activateBundle });
+  bundleActionsRef.current = { loadBundle, selectBundle, activateBundle };
+
+  // Treat a bundle the engine has not reported loaded within bundleLoadTimeout as failed
+  useEffect(() => {
+    const bundle = pendingBundle.current;
+    if (!pdpBundle || !bundle) {
+      return;
+    }
+    const timeoutId = setTimeout(
+      () =>
+        handleBundleLoadFailureRef.current(
+          bundle,
+          "timeout",
+          `Not loaded within ${bundleLoadTimeout}ms`
+        ),
+      bundleLoadTimeout
+    );
+    return () => clearTimeout(timeoutId);
+  }, [pdpBundle, bundleLoadTimeout]);
 
   useEffect(() => {
     let mounted = true;
-    console.log("[CerbosProvider] Initial fetchAsset effect running.");
-    fetchAsset(pdpUrl)
-      .then(async (localUri) => {
+    log.debug("Initial fetchAsset effect running.");
+    const startedAt = Date.now();
+    const { loadBundle, activateBundle } = bundleActionsRef.current;
+    loadBundle()
+      .then((loaded) => {
         if (!mounted) {
-          console.log(
-            "[CerbosProvider] Initial fetchAsset completed but component unmounted."
-          );
+          log.debug("Initial fetchAsset completed but component unmounted.");
           return;
         }
-        console.log(
-          "[CerbosProvider] Initial PDP bundle downloaded/verified at:",
-          localUri
-        );
-        try {
-          const b64 = await FileSystem.readAsStringAsync(localUri, {
-            encoding: FileSystem.EncodingType.Base64,
+        if (loaded) {
+          log.debug("Initial PDP bundle loaded. Setting state.", {
+            bundleId: loaded.id,
           });
-          console.log(
-            `[CerbosProvider] Initial PDP Base64 loaded (Length: ${b64.length}). Setting state.`
-          );
-          setPdpBase64(b64);
-        } catch (readError) {
-          console.error(
-            "[CerbosProvider] Error reading initial PDP bundle:",
-            readError
-          );
+          activateBundle(loaded, startedAt);
         }
       })
-      .catch((err) =>
-        console.error("[CerbosProvider] Error during initial fetchAsset:", err)
-      );
+      .catch((err) => {
+        log.error("Error loading initial PDP bundle", { error: err });
+        if (mounted) {
+          setBundleUnavailable(true);
+        }
+      });
 
     return () => {
-      console.log("[CerbosProvider] Initial fetchAsset effect cleanup.");
+      log.debug("Initial fetchAsset effect cleanup.");
       mounted = false;
     };
-  }, [pdpUrl]);
+  }, [bundleStore, log]);
 
   useEffect(() => {
-    console.log(
-      `[CerbosProvider] Setting up periodic PDP update check (${refreshIntervalSeconds}s interval).`
-    );
+    log.debug("Setting up periodic PDP update check", {
+      refreshIntervalSeconds,
+    });
     const intervalId = setInterval(async () => {
-      console.log("[CerbosProvider] Periodic update check running...");
+      log.debug("Periodic update check running...");
+      const startedAt = Date.now();
       try {
-        const localUri = await fetchAsset(pdpUrl);
-        console.log(
-          "[CerbosProvider] Periodic check: Asset fetched/verified at:",
-          localUri
-        );
-        const newB64 = await FileSystem.readAsStringAsync(localUri, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-
-        setPdpBase64((currentB64) => {
-          if (newB64 !== currentB64) {
-            console.log(
-              `[CerbosProvider] Periodic check: PDP bundle changed (New length: ${newB64.length}). Updating base64 state.`
-            );
-            return newB64;
-          } else {
-            console.log(
-              "[CerbosProvider] Periodic check: PDP bundle unchanged."
-            );
-            return currentB64;
-          }
-        });
+        const { loadBundle, activateBundle } = bundleActionsRef.current;
+        const loaded = await loadBundle();
+        if (loaded) {
+          log.info("Periodic check: PDP bundle changed.", {
+            bundleId: loaded.id,
+          });
+          activateBundle(loaded, startedAt);
+        } else {
+          log.debug("Periodic check: PDP bundle unchanged.");
+        }
       } catch (err) {
-        console.error(
-          "[CerbosProvider] Error during periodic fetchAsset/read:",
-          err
-        );
+        log.error("Error during periodic fetchAsset/read", { error: err });
       }
     }, refreshIntervalSeconds * 1000);
 
     return () => {
-      console.log("[CerbosProvider] Clearing periodic PDP update interval.");
+      log.debug("Clearing periodic PDP update interval.");
       clearInterval(intervalId);
     };
-  }, [pdpUrl]);
-
-  // Refs for managing timeouts, batching, and stats
-  const activeTimeouts = useRef<Record<string, NodeJS.Timeout>>({}); // Stores active setTimeout IDs for request timeouts
-  const batchTimerRef = useRef<NodeJS.Timeout | null>(null); // Stores the setTimeout ID for the next batch processing
-  const isBatchingRef = useRef<boolean>(false); // Flag to prevent concurrent batch processing runs
-  const stats = useRef({
-    // Internal statistics for monitoring
-    totalRequests: 0,
-    successfulRequests: 0,
-    failedRequests: 0,
-    timedOutRequests: 0,
-    batchesSent: 0,
-  });
+  }, [bundleStore, refreshIntervalSeconds, log]);
+
+  // Load an older stored bundle and pin it, so support can pin a known-good version
+  const rollbackBundle = useCallback(
+    async (bundleId?: string): Promise<StoredBundle> => {
+      const bundle = await bundleStore.rollback(bundleId);
+      log.warn("Rolling back policy bundle", { bundleId: bundle.id });
+      const { selectBundle, activateBundle } = bundleActionsRef.current;
+      const selected = await selectBundle(bundle);
+      if (selected) {
+        activateBundle(selected, Date.now());
+      }
+      return selected ?? bundle;
+    },
+    [bundleStore, log] // Dependencies: the store of the current pdpUrl, logger; the bundle functions are read through a ref
+  );
 
-  // Debugging effect to log the request queue size when it changes
-  useEffect(() => {
-    const requestCount = Object.keys(requests).length;
-    if (requestCount > 0) {
-      console.debug(
-        `[CerbosProvider] Request queue size changed: ${requestCount}`
-      );
-    }
-  }, [requests]);
+  const unpinBundle = useCallback(
+    () => bundleStore.unpin(),
+    [bundleStore] // Dependencies: the store of the current pdpUrl
+  );
 
-  // Callback function to clean up a request after it's resolved, rejected, or timed out
-  const cleanupRequest = useCallback(
-    (requestId: string, status: "success" | "failure" | "timeout") => {
-      console.debug(
-        `[CerbosProvider] Cleaning up request ${requestId} (Status: ${status})`
-      );
+  const listBundles = useCallback(
+    () => bundleStore.list(),
+    [bundleStore] // Dependencies: the store of the current pdpUrl
+  );
 
-      // Update internal statistics based on the outcome
-      if (status === "success") stats.current.successfulRequests++;
-      if (status === "failure") stats.current.failedRequests++;
-      if (status === "timeout") stats.current.timedOutRequests++;
+  // Handle used to post requests to the WebView
+  const pdpRef = useRef<CerbosEmbeddedPDPHandle>(null);
+  // Queue of requests awaiting a response, kept outside React state so checks never re-render the provider
+  const queueRef = useRef<PDPRequestQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = new PDPRequestQueue({
+      batchInterval,
+      maxBatchSize,
+      logger: log,
+      send: (request) => {
+        if (!pdpRef.current) {
+          throw new PDPNotReadyError({ requestId: request.requestId });
+        }
+        // Each request is posted to the WebView as its own serialized message
+        pdpRef.current.postRequest(JSON.stringify(request));
+      },
+    });
+  }
+  const queue = queueRef.current;
 
-      // Remove the request from the main pending requests state
-      setRequests((prev) => {
-        const { [requestId]: _, ...remaining } = prev;
-        return remaining;
-      });
+  // Keep the batching and logging settings up to date without dropping pending requests
+  useEffect(() => {
+    queue.configure({ batchInterval, maxBatchSize, logger: log });
+  }, [queue, batchInterval, maxBatchSize, log]);
 
-      // Remove the request from the batched requests state if it's there
-      setBatchedRequests((prev) => {
-        const { [requestId]: _, ...remaining } = prev;
-        return remaining;
-      });
+  // Promises of requests currently being evaluated, keyed by their stable request key
+  const inFlightRequests = useRef<Map<string, InFlightRequest>>(new Map());
 
-      // Clear and remove the timeout associated with this request
-      if (activeTimeouts.current[requestId]) {
-        clearTimeout(activeTimeouts.current[requestId]);
-        delete activeTimeouts.current[requestId];
-      }
-    },
-    [] // No dependencies, this function relies only on refs and setState updaters
+  // Reject anything still pending when the provider unmounts
+  useEffect(
+    () => () => queue.clear(new Error("CerbosProvider unmounted")),
+    [queue]
   );
 
-  // Callback function to process the next batch of requests
-  const processBatch = useCallback(() => {
-    // Prevent concurrent processing of batches
-    if (isBatchingRef.current) {
-      console.debug("[CerbosProvider] Batch processing already in progress.");
-      return;
+  // Optional cache of decisions, recreated only when its options change. Cache hits never
+  // reach the engine, so they would be missing from the audit log: the cache is disabled
+  // while decisionLog is set.
+  const cacheTtlMs = decisionCache?.ttlMs;
+  const cacheMaxEntries = decisionCache?.maxEntries;
+  const cacheRequested = decisionCache !== undefined;
+  const shipsDecisions = decisionLog !== undefined;
+  const cacheEnabled = cacheRequested && !shipsDecisions;
+  useEffect(() => {
+    if (cacheRequested && shipsDecisions) {
+      log.error(
+        "decisionCache is ignored while decisionLog is set, so that every decision is logged."
+      );
     }
+  }, [cacheRequested, shipsDecisions, log]);
+  const cache = useMemo(
+    () =>
+      cacheEnabled
+        ? new DecisionCache<CheckResourcesResponse>({
+            ttlMs: cacheTtlMs,
+            maxEntries: cacheMaxEntries,
+          })
+        : undefined,
+    [cacheEnabled, cacheTtlMs, cacheMaxEntries]
+  );
 
-    setRequests((currentRequests) => {
-      const pendingRequestIds = Object.keys(currentRequests);
-
-      // If no requests are pending, exit early
-      if (pendingRequestIds.length === 0) {
-        return currentRequests; // No state change needed
-      }
+  // Engine options serialized for the WebView; a change rebuilds the engine from the bundle already on disk
+  const engineOptions = stableStringify({
+    globals,
+    defaultPolicyVersion,
+    lenientScopeSearch,
+  } satisfies EmbeddedEngineOptions);
+
+  // Optional decision log shipper, recreated only when its options change by value. It logs
+  // through the logger current when it was created, so a new log level does not restart it.
+  const decisionLogKey = decisionLog && stableStringify(decisionLog);
+  const decisionLogOptions = useMemo(
+    () =>
+      decisionLogKey === undefined
+        ? undefined
+        : (JSON.parse(decisionLogKey) as DecisionLogShipperOptions),
+    [decisionLogKey]
+  );
+  const logRef = useRef(log);
+  logRef.current = log;
+  const shipper = useMemo(
+    () =>
+      decisionLogOptions
+        ? new DecisionLogShipper(
+            decisionLogOptions,
+            fileJournal(DECISION_LOG_JOURNAL),
+            logRef.current.withTag("DecisionLogShipper")
+          )
+        : undefined,
+    [decisionLogOptions]
+  );
 
-      // Mark batching as active
-      isBatchingRef.current = true;
+  // Upload journaled entries while mounted, resuming as soon as the device is back online
+  useEffect(() => {
+    if (!shipper) {
+      return;
+    }
+    shipper.start();
+    const unsubscribe = NetInfo.addEventListener((state) =>
+      shipper.setOnline(state.isConnected !== false)
+    );
+    return () => {
+      unsubscribe();
+      shipper.stop();
+    };
+  }, [shipper]);
+
+  // Decision log rules, recreated only when they change by value
+  const decisionLogRulesKey =
+    decisionLogRules && stableStringify(decisionLogRules);
+  const filterDecision = useMemo(
+    () =>
+      decisionLogRulesKey === undefined
+        ? undefined
+        : createDecisionLogFilter(
+            JSON.parse(decisionLogRulesKey) as DecisionLogRules
+          ),
+    [decisionLogRulesKey]
+  );
 
-      // Select requests for the current batch, up to maxBatchSize
-      const batchEntries = Object.entries(currentRequests).slice(
-        0,
-        maxBatchSize
-      );
+  // Most recent decisions, kept for the decision log viewer
+  const recentDecisions = useMemo(
+    () => new DecisionLogBuffer(recentDecisionsSize),
+    [recentDecisionsSize]
+  );
+  // Commit of the loaded policy bundle, recorded with each decision
+  const policyCommit = metadata?.commit;
+
+  // Redact and sample each decision, then buffer it, journal it for upload and pass it to onDecision
+  const handleDecision = useCallback(
+    (decision: DecisionLogEntry): void => {
+      const entry = filterDecision ? filterDecision(decision) : decision;
+      if (!entry) {
+        return;
+      }
+      if (recentDecisionsSize > 0) {
+        recentDecisions.push({
+          entry,
+          // Fallback decisions are not made by a policy bundle
+          commit: isFallbackDecisionLogEntry(entry) ? undefined : policyCommit,
+        });
+      }
+      shipper?.append(entry);
+      onDecision?.(entry);
+    },
+    [
+      filterDecision,
+      recentDecisions,
+      recentDecisionsSize,
+      policyCommit,
+      shipper,
+      onDecision,
+    ] // Dependencies: decision log rules, recent decisions buffer, policy commit, decision log shipper, decision callback
+  );
+  const logsDecisions =
+    recentDecisionsSize > 0 ||
+    shipper !== undefined ||
+    onDecision !== undefined;
+
+  // Latest fallback settings, read when a check is decided by the fallback
+  const fallbackRef = useRef({ fallbackMode, handleDecision });
+  fallbackRef.current = { fallbackMode, handleDecision };
+
+  // Gate that opens when the PDP first becomes ready, releasing checks held in "queue" mode
+  const readyGate = useRef<{ promise: Promise<void>; open: () => void }>();
+  if (!readyGate.current) {
+    let open = () => {};
+    const promise = new Promise<void>((resolve) => {
+      open = resolve;
+    });
+    readyGate.current = { promise, open };
+  }
+  useEffect(() => {
+    if (isReady || isFallback) {
+      readyGate.current?.open();
+    }
+  }, [isReady, isFallback]);
+
+  // Wait for the PDP to become ready, failing once the deadline passes or the caller aborts
+  const waitUntilReady = useCallback(
+    (signal?: AbortSignal): Promise<void> =>
+      new Promise<void>((resolve, reject) => {
+        const detach = () => {
+          clearTimeout(timeoutId);
+          signal?.removeEventListener("abort", onAbort);
+        };
+        const timeoutId = setTimeout(() => {
+          detach();
+          reject(new PDPNotReadyError({ waitedMs: readyTimeout }));
+        }, readyTimeout);
+        const onAbort = () => {
+          detach();
+          reject(new PDPAbortError());
+        };
+        signal?.addEventListener("abort", onAbort);
+
+        readyGate.current?.promise.then(() => {
+          detach();
+          resolve();
+        });
+      }),
+    [readyTimeout]
+  );
 
-      // Prepare the serializable batch to send to the WebView
-      const newBatch: SerializablePDPRequests = {};
-      batchEntries.forEach(([id, pendingRequest]) => {
-        newBatch[id] = pendingRequest.request;
-      });
+  // Latest validation error callback, read when a response arrives
+  const onValidationErrorRef = useRef(onValidationError);
+  onValidationErrorRef.current = onValidationError;
+
+  // Report the schema violations in one caller's response, once a merged response has been
+  // split, and surface them while developing policies
+  const reportValidationErrors = useCallback(
+    (response: CheckResourcesResponse, requestId: string): void => {
+      const errors = validationErrorsOf(response);
+      if (errors.length === 0) {
+        return;
+      }
+      if (__DEV__) {
+        log.warn("Schema validation errors", { requestId, errors });
+      }
+      onValidationErrorRef.current?.(errors, requestId);
+    },
+    [log] // Dependencies: logger
+  );
 
-      // Update the batchedRequests state, triggering the WebView to process them
-      setBatchedRequests((prev) => {
-        stats.current.batchesSent++;
-        console.log(
-          `[CerbosProvider] Sending batch #${stats.current.batchesSent} with ${
-            Object.keys(newBatch).length
-          } requests to WebView.`
-        );
-        // Add the new batch to any existing batched requests (though ideally, prev should be empty)
-        return { ...prev, ...newBatch };
-      });
+  // Make a single attempt at an authorization check
+  const checkResourcesOnce = useCallback(
+    (
+      requestData: Omit<CheckResourcesRequest, "requestId">,
+      {
+        signal,
+        timeoutMs,
+        priority,
+      }: CheckResourcesOptions & { timeoutMs: number }
+    ): Promise<CheckResourcesResponse> => {
+      // Decide the check locally while no bundle could be loaded
+      const { fallbackMode, handleDecision } = fallbackRef.current;
+      if (isFallback && fallbackMode !== undefined) {
+        if (signal?.aborted) {
+          return Promise.reject(new PDPAbortError());
+        }
+        queue.stats.totalRequests++;
+        const requestWithId: CheckResourcesRequest = {
+          ...requestData,
+          requestId: uuid.v4() as string,
+        };
+        const response = fallbackResponse(fallbackMode, requestWithId);
+        log.warn("No policy bundle loaded. Request decided by fallback.", {
+          requestId: requestWithId.requestId,
+        });
+        handleDecision(fallbackDecisionLogEntry(requestWithId, response));
+        return Promise.resolve(response);
+      }
 
-      // Reset the batching flag after a short delay.
-      // This gives the WebView time to pick up the new `batchedRequests` prop.
-      // Adjust delay if needed based on WebView performance.
-      setTimeout(() => {
-        isBatchingRef.current = false;
-        console.debug("[CerbosProvider] Batch processing flag reset.");
-
-        // If there are more requests remaining than the batch size, schedule the next batch immediately.
-        if (pendingRequestIds.length > maxBatchSize) {
-          console.debug(
-            "[CerbosProvider] More requests pending, scheduling next batch."
+      // Hold the check until the PDP is ready, or reject it immediately
+      if (!isReady) {
+        if (whenNotReady === "queue") {
+          log.debug("PDP not ready. Holding checkResources call until it is.");
+          // Once ready, run the check with the latest provider state
+          return waitUntilReady(signal).then(() =>
+            checkResourcesOnceRef.current(requestData, {
+              signal,
+              timeoutMs,
+              priority,
+            })
           );
-          if (batchTimerRef.current) {
-            clearTimeout(batchTimerRef.current); // Clear any existing timer
-          }
-          // Use setTimeout for the next batch to avoid deep recursion and allow UI updates
-          batchTimerRef.current = setTimeout(processBatch, batchInterval);
         }
-      }, 100); // Small delay before allowing the next batch
-
-      // Return the current state; requests are removed only upon response/timeout/error
-      return currentRequests;
-    });
-  }, [maxBatchSize, batchInterval]); // Dependencies: batch configuration
+        log.warn("PDP not ready. Rejecting checkResources call.");
+        return Promise.reject(new PDPNotReadyError());
+      }
+      if (signal?.aborted) {
+        return Promise.reject(new PDPAbortError());
+      }
 
-  // Effect to trigger batch processing when new requests arrive
-  useEffect(() => {
-    const requestCount = Object.keys(requests).length;
+      queue.stats.totalRequests++; // Increment total request count
 
-    // If there are requests, no batch timer is currently set, and not currently batching
-    if (requestCount > 0 && !batchTimerRef.current && !isBatchingRef.current) {
-      console.debug(
-        `[CerbosProvider] Scheduling batch processing in ${batchInterval}ms.`
-      );
-      // Schedule the batch processing after the configured interval
-      batchTimerRef.current = setTimeout(() => {
-        batchTimerRef.current = null; // Clear the ref once the timer fires
-        processBatch();
-      }, batchInterval);
-    }
+      // Identical requests share a key, regardless of attribute order
+      const requestKey = stableStringify(requestData);
 
-    // Cleanup function: clear the batch timer if the component unmounts
-    // or if dependencies change before the timer fires.
-    return () => {
-      if (batchTimerRef.current) {
-        console.debug("[CerbosProvider] Clearing scheduled batch timer.");
-        clearTimeout(batchTimerRef.current);
-        batchTimerRef.current = null;
+      // Serve the decision from the cache if one is still valid
+      const cacheCommit = cache?.commit;
+      if (cache) {
+        const cached = cache.get(requestKey);
+        if (cached) {
+          queue.stats.cacheHits++;
+          log.debug("Decision cache hit.");
+          return Promise.resolve(cached);
+        }
+        queue.stats.cacheMisses++;
       }
-    };
-  }, [requests, processBatch, batchInterval]); // Dependencies: requests queue, batch function, interval
 
-  // Public function exposed via context to make authorization checks
-  const checkResources = useCallback(
-    (
-      requestData: Omit<CheckResourcesRequest, "requestId">
-    ): Promise<CheckResourcesResponse> => {
-      // Reject immediately if the PDP is not yet ready
-      if (!isReady) {
-        console.warn(
-          "[CerbosProvider] PDP not ready. Rejecting checkResources call."
-        );
-        return Promise.reject(new Error("Cerbos PDP not initialized"));
+      // Share the evaluation of an identical request that is already in flight
+      const inFlight = inFlightRequests.current.get(requestKey);
+      if (inFlight && !inFlight.controller.signal.aborted) {
+        queue.stats.coalescedRequests++;
+        log.debug("Joining identical in-flight request.", {
+          requestId: inFlight.requestId,
+        });
+        return waitForInFlight(inFlight, signal, timeoutMs);
       }
 
-      stats.current.totalRequests++; // Increment total request count
       const requestId = uuid.v4() as string; // Generate a unique ID for the request
       const requestWithId: CheckResourcesRequest = {
         ...requestData,
         requestId: requestId,
       };
-      console.log(`[CerbosProvider] Queuing request: ${requestId}`);
-
-      // Return a new promise that will be resolved/rejected when the response arrives or times out
-      return new Promise<CheckResourcesResponse>((resolve, reject) => {
-        // Set up a timeout for this specific request
-        const timeoutId = setTimeout(() => {
-          console.warn(
-            `[CerbosProvider] Request ${requestId} timed out after ${requestTimeout}ms.`
-          );
+      log.debug("Queuing request", { requestId });
+
+      // Queue the request without a timeout of its own: each caller sharing it enforces its
+      // own timeout, and it is only cancelled once every caller has timed out or aborted
+      const controller = new AbortController();
+      const entry: InFlightRequest = {
+        requestId,
+        promise: queue.enqueue(requestWithId, {
+          priority,
+          signal: controller.signal,
+        }),
+        controller,
+        callers: 0,
+      };
 
-          // Use the state updater function for safe access to the latest state
-          setRequests((currentRequests) => {
-            // Check if the request is still pending (it might have been resolved/rejected already)
-            if (currentRequests[requestId]) {
-              // Reject the promise associated with this request
-              currentRequests[requestId].reject(
-                new Error(
-                  `Request ${requestId} timed out after ${requestTimeout}ms`
-                )
-              );
+      inFlightRequests.current.set(requestKey, entry);
+      const settled = () => {
+        if (inFlightRequests.current.get(requestKey) === entry) {
+          inFlightRequests.current.delete(requestKey);
+        }
+      };
+      // Errors are handled by the callers; only successful decisions are cached
+      entry.promise.then((response) => {
+        settled();
+        reportValidationErrors(response, requestId);
+        cache?.set(requestKey, response, cacheCommit);
+      }, settled);
+
+      return waitForInFlight(entry, signal, timeoutMs);
+    },
+    [
+      isReady,
+      isFallback,
+      whenNotReady,
+      waitUntilReady,
+      queue,
+      cache,
+      reportValidationErrors,
+      log,
+    ] // Dependencies: readiness settings, request queue, decision cache, validation error reporting, logger
+  );
+  const checkResourcesOnceRef = useRef(checkResourcesOnce);
+  checkResourcesOnceRef.current = checkResourcesOnce;
 
-              // Clean up the request state and associated timeout
-              cleanupRequest(requestId, "timeout");
+  // Current principal, compared by value so setting an identical principal changes nothing
+  const [principalState, setPrincipal] = useState<Principal | undefined>(
+    undefined
+  );
+  const principalKey = principalState && stableStringify(principalState);
+  const principal = useMemo(
+    () =>
+      principalKey === undefined
+        ? undefined
+        : (JSON.parse(principalKey) as Principal),
+    [principalKey]
+  );
 
-              // Return the updated state without the timed-out request
-              const { [requestId]: _, ...remaining } = currentRequests;
-              return remaining;
-            }
-            // If the request is not found, it means it was already processed. No state change needed.
-            return currentRequests;
-          });
-        }, requestTimeout);
+  // Decisions made for the previous principal must not be served to the new one
+  useEffect(() => {
+    if (cache && cache.size > 0) {
+      cache.clear();
+      log.info("Principal changed. Decision cache flushed.");
+    }
+  }, [principal, cache, log]);
 
-        // Store the timeout ID so it can be cleared later
-        activeTimeouts.current[requestId] = timeoutId;
+  // Decisions depend on the globals, default policy version and scope search as much as on
+  // the policies, so they must not be served once the engine is rebuilt with other options
+  useEffect(() => {
+    if (cache && cache.size > 0) {
+      cache.clear();
+      log.info("Engine options changed. Decision cache flushed.");
+    }
+  }, [engineOptions, cache, log]);
+
+  // Latest auxData provider, read once per call so checkResources keeps a stable identity
+  const getAuxDataRef = useRef(getAuxData);
+  getAuxDataRef.current = getAuxData;
+
+  // Fill in the current principal and merge the provider's auxData into a request.
+  // A principal or auxData set on the request itself takes precedence.
+  const prepareRequest = useCallback(
+    async <T extends { principal?: Principal; auxData?: AuxData }>(
+      requestData: T
+    ): Promise<T & { principal: Principal }> => {
+      const requestPrincipal = requestData.principal ?? principal;
+      if (!requestPrincipal) {
+        throw new NoPrincipalError();
+      }
+      const auxData = await getAuxDataRef.current?.();
+      return {
+        ...requestData,
+        principal: requestPrincipal,
+        auxData: auxData
+          ? { ...auxData, ...requestData.auxData }
+          : requestData.auxData,
+      };
+    },
+    [principal] // Dependencies: current principal; the auxData provider is read through a ref
+  );
 
-        // Add the new request to the pending requests state
-        setRequests((prev) => {
-          console.debug(
-            `[CerbosProvider] Added request ${requestId} to queue. Queue size: ${
-              Object.keys(prev).length + 1
-            }`
-          );
-          return {
-            ...prev,
-            [requestId]: {
-              request: requestWithId,
-              resolve, // Store the promise resolve function
-              reject, // Store the promise reject function
-              createdAt: Date.now(), // Store creation time for debugging/timing
-            },
-          };
-        });
-        // Note: The useEffect hook watching `requests` will trigger batch processing if needed.
-      });
+  // Public function exposed via context to make authorization checks
+  const checkResources = useCallback(
+    (
+      requestData: CheckResourcesInput,
+      options: CheckResourcesOptions = {}
+    ): Promise<CheckResourcesResponse> => {
+      const { signal, retries = 0, priority } = options;
+      const timeoutMs = options.timeoutMs ?? requestTimeout;
+      return prepareRequest(requestData).then((request) =>
+        withRetries(
+          () => checkResourcesOnce(request, { signal, timeoutMs, priority }),
+          retries,
+          log,
+          signal
+        )
+      );
     },
-    [isReady, requestTimeout, cleanupRequest] // Dependencies: readiness flag, timeout config, cleanup function
+    [checkResourcesOnce, prepareRequest, requestTimeout, log] // Dependencies: single attempt function, principal and auxData merging, timeout config, logger
+  );
+
+  // Public function exposed via context to check a single action for the current principal
+  const isAllowed = useCallback(
+    (
+      resource: Resource,
+      action: string,
+      options?: CheckResourcesOptions
+    ): Promise<boolean> =>
+      checkResources(
+        { resources: [{ resource, actions: [action] }] },
+        options
+      ).then((response) => response.isAllowed({ resource, action }) === true),
+    [checkResources] // Dependencies: check function
   );
 
   // Callback function passed to the WebView, invoked when a response is received
   const handleResponse = useCallback(
     (responsePB: CheckResourcesResponsePB): void => {
-      const requestId = responsePB.requestId;
-      console.log(
-        `[CerbosProvider] Received response from WebView for request: ${requestId}`
-      );
-
-      // Find the corresponding pending request
-      const pendingRequest = requests[requestId];
-
-      if (pendingRequest) {
-        const processingTime = Date.now() - pendingRequest.createdAt;
-        console.debug(
-          `[CerbosProvider] Processing response for ${requestId} (Total time: ${processingTime}ms)`
-        );
-
-        try {
-          // Convert the Protobuf response to the standard JS type
-          const response = checkResourcesResponseFromProtobuf(responsePB);
-          // Resolve the promise associated with this request
-          pendingRequest.resolve(response);
-          // Clean up the request state
-          cleanupRequest(requestId, "success");
-        } catch (error) {
-          console.error(
-            `[CerbosProvider] Error converting Protobuf response for ${requestId}:`,
-            error
-          );
-          // Reject the promise if conversion fails
-          pendingRequest.reject(error);
-          // Clean up the request state
-          cleanupRequest(requestId, "failure");
-        }
-      } else {
-        // This might happen if the request timed out just before the response arrived
-        console.warn(
-          `[CerbosProvider] Received response for unknown or already processed request ID: ${requestId}. Might have timed out.`
-        );
-        // Attempt to clean up batched request state just in case
-        setBatchedRequests((prev) => {
-          const { [requestId]: _, ...remaining } = prev;
-          return remaining;
-        });
-      }
+      log.debug("Received response from WebView", {
+        requestId: responsePB.requestId,
+      });
+      queue.handleResponse(responsePB);
     },
-    [requests, cleanupRequest] // Dependencies: requests state, cleanup function
+    [queue, log] // Dependencies: request queue, logger
   );
 
   // Callback function passed to the WebView, invoked when an error occurs during processing in the WebView
   const handleError = useCallback(
     (requestId: string, error: Error): void => {
-      console.error(
-        `[CerbosProvider] Received error from WebView for request ${requestId}:`,
-        error.message
-      );
-
-      // Find the corresponding pending request
-      const pendingRequest = requests[requestId];
-
-      if (pendingRequest) {
-        const processingTime = Date.now() - pendingRequest.createdAt;
-        console.debug(
-          `[CerbosProvider] Processing error for ${requestId} (Total time: ${processingTime}ms)`
-        );
-
-        // Reject the promise associated with this request
-        pendingRequest.reject(error);
-        // Clean up the request state
-        cleanupRequest(requestId, "failure");
-      } else {
-        // This might happen if the request timed out just before the error was reported
-        console.warn(
-          `[CerbosProvider] Received error for unknown or already processed request ID: ${requestId}. Might have timed out.`,
-          error.message
-        );
-        // Attempt to clean up batched request state just in case
-        setBatchedRequests((prev) => {
-          const { [requestId]: _, ...remaining } = prev;
-          return remaining;
-        });
-      }
+      log.error("Received error from WebView", {
+        requestId,
+        error: error.message,
+      });
+      queue.handleError(requestId, error);
     },
-    [requests, cleanupRequest] // Dependencies: requests state, cleanup function
+    [queue, log] // Dependencies: request queue, logger
+  );
+
+  // Public function exposed via context to read the bridge's metrics
+  const getMetrics = useCallback(
+    (): PDPMetrics => ({
+      ...queue.metrics(),
+      bundleLoadMs: bundleMetrics.current.loadMs,
+      bundleSizeBytes: bundleMetrics.current.sizeBytes,
+      bundleDownloads: bundleTransfers.current.downloads,
+      bundleNotModified: bundleTransfers.current.notModified,
+      bundleBytesTransferred: bundleTransfers.current.bytes,
+    }),
+    [queue] // Dependencies: request queue
   );
 
+  // Report metrics periodically, e.g. to an APM
+  const onMetricsRef = useRef(onMetrics);
+  onMetricsRef.current = onMetrics;
+  const reportsMetrics = onMetrics !== undefined;
+  useEffect(() => {
+    if (!reportsMetrics) {
+      return;
+    }
+    const intervalId = setInterval(
+      () => onMetricsRef.current?.(getMetrics()),
+      metricsIntervalMs
+    );
+    return () => clearInterval(intervalId);
+  }, [reportsMetrics, metricsIntervalMs, getMetrics]);
+
   // Memoize the context value to prevent unnecessary re-renders of consumers
   const contextValue = useMemo(
     () => ({
       checkResources,
+      isAllowed,
+      principal,
+      setPrincipal,
+      getMetrics,
+      recentDecisions,
+      listBundles,
+      rollbackBundle,
+      unpinBundle,
       metadata,
       isLoaded: isReady,
+      isFallback,
     }),
-    [checkResources, metadata, isReady] // Dependencies for the context value
+    [
+      checkResources,
+      isAllowed,
+      principal,
+      getMetrics,
+      recentDecisions,
+      listBundles,
+      rollbackBundle,
+      unpinBundle,
+      metadata,
+      isReady,
+      isFallback,
+    ] // Dependencies for the context value
   );
 
   // Log when the provider is rendering and whether the PDP base64 is ready
   useEffect(() => {
-    console.debug(
-      `[CerbosProvider] Rendering. PDP Base64 ready: ${!!pdpBase64}`
+    log.debug("Rendering", { pdpReady: !!pdpBundle });
+  }, [pdpBundle, log]);
+
+  if (!pdpBundle && isFallback) {
+    // No bundle could be loaded, so render the app with checks decided by the fallback
+    log.debug("No PDP bundle available. Using fallback decisions.");
+    return (
+      <CerbosContext.Provider value={contextValue}>
+        {children}
+      </CerbosContext.Provider>
     );
-  }, [pdpBase64]);
+  }
 
-  if (!pdpBase64) {
+  if (!pdpBundle) {
     // If the local PDP bundle is not yet loaded, show a loading indicator
-    console.log("[CerbosProvider] Waiting for PDP base64 data...");
+    log.debug("Waiting for PDP bundle...");
     return (
       <ThemedView>
         <ThemedText>Loading Cerbos ePDP...</ThemedText>
@@ -516,11 +1049,10 @@ export const CerbosProvider: React.FC<CerbosProviderProps> = ({
   }
 
   // Log before rendering the WebView component
-  console.debug(
-    `[CerbosProvider] Rendering CerbosEmbeddedPDPWebView. isReady: ${isReady}, Batched requests count: ${
-      Object.keys(batchedRequests).length
-    }`
-  );
+  log.debug("Rendering CerbosEmbeddedPDPWebView", {
+    isReady,
+    pendingRequests: queue.size,
+  });
 
   return (
     <CerbosContext.Provider value={contextValue}>
@@ -529,51 +1061,99 @@ export const CerbosProvider: React.FC<CerbosProviderProps> = ({
       {/* It handles the actual PDP loading and request execution */}
       <View style={{ height: 0, width: 0, opacity: 0 }}>
         <CerbosEmbeddedPDPWebView
-          // Pass the base64 encoded PDP bundle
-          pdpb64={pdpBase64}
+          // Handle used to post requests to the WebView
+          ref={pdpRef}
+          // Pass the stored PDP bundle; the WebView reads it in chunks rather than as one large prop
+          bundleUri={pdpBundle.uri}
+          bundleSizeBytes={pdpBundle.sizeBytes}
+          readBundleChunk={readBundleChunk}
           // Pass the refresh interval
           refreshIntervalSeconds={refreshIntervalSeconds}
+          // Pass the engine options; changing them rebuilds the engine without re-downloading the bundle
+          engineOptions={engineOptions}
+          // Pass the JWT decoder, called from the WebView when a request carries a JWT
+          decodeJWTPayload={
+            decodeJWTPayload
+              ? async (jwt: JWT) => decodeJWTPayload(jwt)
+              : undefined
+          }
           // Callback invoked by WebView when the PDP bundle is loaded or updated
           handlePDPUpdated={(meta: PDPMetaData) => {
-            console.log(
-              "[CerbosProvider] handlePDPUpdated callback invoked by WebView.",
-              meta
-            );
+            log.info("handlePDPUpdated callback invoked by WebView.", {
+              metadata: meta,
+            });
             setMetadata(meta); // Update timestamp
-            if (!isReady) {
-              console.log(
-                "[CerbosProvider] Setting isReady to true via handlePDPUpdated."
+            // Record the commit of the bundle the engine just loaded, for listBundles, and
+            // stop treating its contents as failed
+            const loadedBundle = pendingBundle.current;
+            pendingBundle.current = undefined;
+            if (loadedBundle) {
+              bundleStore
+                .markLoaded(loadedBundle.id, meta.commit)
+                .catch((err) =>
+                  log.warn("Failed to record policy bundle commit", {
+                    error: err,
+                  })
+                );
+            }
+            // Record how long the bundle took to download and load, and its size
+            if (bundleLoadStartedAt.current !== undefined) {
+              bundleMetrics.current = {
+                loadMs: Date.now() - bundleLoadStartedAt.current,
+                sizeBytes: pdpBundle.sizeBytes,
+              };
+              bundleLoadStartedAt.current = undefined;
+            }
+            // Cached decisions are bound to both the commit and the engine options, so
+            // decisions still in flight from the previous engine are never cached
+            if (cache?.setCommit(`${meta.commit} ${engineOptions}`)) {
+              log.info(
+                "Policy commit or engine options changed. Decision cache flushed.",
+                { commit: meta.commit }
               );
+            }
+            if (!isReady) {
+              log.debug("Setting isReady to true via handlePDPUpdated.");
               setIsReady(true); // Set ready state on first load
             }
           }}
-          // Pass the current batch of requests to the WebView for processing
-          requests={batchedRequests}
+          // Roll back to the previous bundle if the engine fails to load this one
+          handleLoadError={(error: string) => {
+            const bundle = pendingBundle.current;
+            if (bundle) {
+              handleBundleLoadFailure(bundle, "error", error);
+            }
+          }}
           // Pass callback handler for successful responses from the WebView
           handleResponse={handleResponse}
           // Pass callback handler for errors occurring within the WebView
           handleError={handleError}
           // Legacy callback invoked by WebView when it considers itself loaded (use handlePDPUpdated preferably)
           loaded={(loadedState: boolean) => {
-            console.log(
-              `[CerbosProvider] 'loaded' callback invoked by WebView with state: ${loadedState}. Current isReady: ${isReady}`
-            );
+            log.debug("'loaded' callback invoked by WebView", {
+              loadedState,
+              isReady,
+            });
             // Ensure we only set readiness to true, and don't unset it via this legacy callback if handlePDPUpdated already set it.
             if (loadedState && !isReady) {
-              console.log(
-                "[CerbosProvider] Setting isReady to true via legacy 'loaded' callback."
+              log.debug(
+                "Setting isReady to true via legacy 'loaded' callback."
               );
               setIsReady(true);
             } else if (!loadedState && isReady) {
-              console.warn(
-                "[CerbosProvider] Legacy 'loaded' callback reported false, but provider is already ready. Ignoring."
+              log.warn(
+                "Legacy 'loaded' callback reported false, but provider is already ready. Ignoring."
               );
             }
             // We might consider setting isReady to false if loadedState is false *and* pdpLoadedAt is undefined,
             // but handlePDPUpdated is the primary mechanism now.
           }}
+          // Only events at or above the provider's level cross the bridge
+          logLevel={logLevel}
+          // Forward the WebView's log events to the provider's logger
+          handleLog={(event: LogEvent) => log.emit(event)}
           // Pass callback handler for decision logs (if needed)
-          handleDecisionLog={onDecision}
+          handleDecisionLog={logsDecisions ? handleDecision : undefined}
           // DOM props for Expo Web compatibility (can be ignored for native)
           dom={{ style: { height: 0 }, matchContents: false }}
         />
@@ -582,6 +1162,29 @@ export const CerbosProvider: React.FC<CerbosProviderProps> = ({
   );
 };
 
+// Hook that returns the bridge's metrics, refreshed every `intervalMs`
+export const useCerbosStats = (intervalMs: number = 1000): PDPMetrics => {
+  const { getMetrics } = useCerbos();
+  const [metrics, setMetrics] = useState<PDPMetrics>(() => getMetrics());
+
+  useEffect(() => {
+    setMetrics(getMetrics());
+    const intervalId = setInterval(() => setMetrics(getMetrics()), intervalMs);
+    return () => clearInterval(intervalId);
+  }, [getMetrics, intervalMs]);
+
+  return metrics;
+};
+
+// Hook that returns the most recent decisions, oldest first, updated as new ones are made
+export const useRecentDecisions = (): RecentDecision[] => {
+  const { recentDecisions } = useCerbos();
+  return useSyncExternalStore(
+    recentDecisions.subscribe,
+    recentDecisions.snapshot
+  );
+};
+
 // Custom hook to easily consume the Cerbos context
 export const useCerbos = (): CerbosContextType => {
   const context = useContext(CerbosContext);
@@ -592,133 +1195,440 @@ export const useCerbos = (): CerbosContextType => {
   return context;
 };
 
-export async function fetchAsset(url: string) {
-  const filename = "cerbosepdp.wasm";
-  const localUri = `${FileSystem.documentDirectory}${filename}`;
-  const etagKey = `${url}:etag`;
+// File in the document directory holding decision logs that have not been uploaded
+const DECISION_LOG_JOURNAL = "cerbos-decision-log.json";
+
+// Decision log journal kept in a file, so entries survive the app being killed
+function fileJournal(filename: string): DecisionLogJournal {
+  const uri = `${FileSystem.documentDirectory}${filename}`;
+  return {
+    read: async () =>
+      (await FileSystem.getInfoAsync(uri)).exists
+        ? FileSystem.readAsStringAsync(uri)
+        : null,
+    write: (contents) => FileSystem.writeAsStringAsync(uri, contents),
+  };
+}
+
+// Run an attempt, retrying failures up to `retries` times, but never one that was aborted
+function withRetries<T>(
+  run: () => Promise<T>,
+  retries: number,
+  log: Logger,
+  signal?: AbortSignal
+): Promise<T> {
+  return run().catch((error) => {
+    if (retries <= 0 || error instanceof PDPAbortError || signal?.aborted) {
+      throw error;
+    }
+    log.warn("Request failed, retrying", { retriesLeft: retries, error });
+    return withRetries(run, retries - 1, log, signal);
+  });
+}
+
+// Shape of the state returned by the checking hooks
+export interface CerbosCheckState {
+  allowed: boolean | undefined; // Decision, undefined until a response has been received
+  loading: boolean; // True while waiting for the PDP to load or a check to complete
+  error: Error | undefined; // Set if the most recent check failed
+  response: CheckResourcesResponse | undefined; // Full response of the most recent check
+}
+
+const initialCheckState: CerbosCheckState = {
+  allowed: undefined,
+  loading: true,
+  error: undefined,
+  response: undefined,
+};
+
+// Hook that runs a checkResources call and keeps its result in state.
+// The check waits for the PDP to load (or the fallback to take over), re-runs whenever
+// the request, the current principal or the policy bundle commit changes, and ignores
+// results from superseded requests.
+// `allowed` is true only if every action on every resource was allowed.
+export const useCheckResources = (
+  request: CheckResourcesInput
+): CerbosCheckState => {
+  const { checkResources, isLoaded, isFallback, metadata, principal } =
+    useCerbos();
+  const [state, setState] = useState<CerbosCheckState>(initialCheckState);
+
+  // Requests are usually object literals, so compare them by value
+  const requestKey = JSON.stringify(request);
+  const requestRef = useRef(request);
+  requestRef.current = request;
+  const lastRequestKey = useRef<string | undefined>(undefined);
+  const commit = metadata?.commit;
+
+  useEffect(() => {
+    // Drop the previous result if the inputs changed, keep it if only the bundle changed
+    const inputsChanged = lastRequestKey.current !== requestKey;
+    lastRequestKey.current = requestKey;
+    setState((prev) =>
+      inputsChanged ? initialCheckState : { ...prev, loading: true }
+    );
+
+    // Wait for the PDP, and for a principal if the request relies on the provider's
+    if (
+      (!isLoaded && !isFallback) ||
+      (!requestRef.current.principal && !principal)
+    ) {
+      return;
+    }
+
+    let stale = false;
+    const controller = new AbortController();
+    checkResources(requestRef.current, { signal: controller.signal })
+      .then((response) => {
+        if (stale) return;
+        setState({
+          allowed: response.results.every((result: CheckResourcesResult) =>
+            result.allAllowed()
+          ),
+          loading: false,
+          error: undefined,
+          response,
+        });
+      })
+      .catch((err) => {
+        if (stale) return;
+        setState({
+          allowed: undefined,
+          loading: false,
+          error: err instanceof Error ? err : new Error(String(err)),
+          response: undefined,
+        });
+      });
 
+    return () => {
+      stale = true; // Ignore the result once the inputs or bundle have changed
+      controller.abort(); // Stop waiting for a check nobody needs any more
+    };
+  }, [requestKey, isLoaded, isFallback, commit, principal, checkResources]);
+
+  return state;
+};
+
+// Hook that checks whether a principal may perform a single action on a resource.
+// The principal can be omitted to use the provider's current principal.
+export const useIsAllowed = (
+  ...args:
+    | [resource: Resource, action: string]
+    | [principal: Principal, resource: Resource, action: string]
+): CerbosCheckState => {
+  const [principal, resource, action] =
+    args.length === 3 ? args : [undefined, ...args];
+  const state = useCheckResources({
+    principal,
+    resources: [{ resource, actions: [action] }],
+  });
+
+  return {
+    ...state,
+    allowed: state.response?.isAllowed({ resource, action }),
+  };
+};
+
+// Returns headers for bundle downloads, e.g. a bearer token from the app's auth layer.
+// `refresh` is true when the server rejected the previous headers, so fresh credentials should be fetched.
+export type BundleHeadersProvider = (options: {
+  refresh: boolean;
+}) => Record<string, string> | Promise<Record<string, string>>;
+
+// Settings for downloading the policy bundle
+export interface FetchAssetOptions {
+  store?: BundleStore; // Where downloaded bundles are kept (default: a store of 3 bundles for the URL)
+  headers?: Record<string, string>; // Headers sent with every download, e.g. an API key
+  getHeaders?: BundleHeadersProvider; // Headers added to every download, e.g. a bearer token; called again with refresh: true after a 401 or 403
+  onAuthorizationError?: (error: BundleAuthorizationError) => void; // Called when the server rejects the credentials, even after refreshing them
+  logger?: Logger; // Destination for download logs (default: console logger)
+  verification?: BundleVerificationOptions; // Checks a download must pass before it is promoted into the store
+  onVerificationError?: (error: BundleVerificationError) => void; // Called when a download fails verification
+  onTransfer?: (transfer: BundleTransfer) => void; // Called with the status and size of each download response
+  onPromoted?: (bundle: StoredBundle) => void; // Called when a download passed verification and was promoted into the store
+}
+
+// Download the bundle into the store if it changed, returning the active stored bundle
+export async function fetchAsset(
+  url: string,
+  {
+    store = new BundleStore(url),
+    headers,
+    getHeaders,
+    onAuthorizationError,
+    logger: log = createLogger("fetchAsset"),
+    verification,
+    onVerificationError,
+    onTransfer,
+    onPromoted,
+  }: FetchAssetOptions = {}
+): Promise<StoredBundle> {
   // Check connectivity
   const { isConnected } = await NetInfo.fetch();
-  const info = await FileSystem.getInfoAsync(localUri); // Check existence early
+  // Check the active bundle's file early, as it is the fallback for every failure below
+  const active = await store.active();
+  const cached =
+    active && (await FileSystem.getInfoAsync(active.uri)).exists
+      ? active
+      : undefined;
 
   if (!isConnected) {
-    console.log("[fetchAsset] Offline mode detected.");
-    if (info.exists) {
-      console.log(
-        "[fetchAsset] Offline: Returning existing cached asset:",
-        localUri
-      );
-      return localUri;
+    log.info("Offline mode detected.");
+    if (cached) {
+      log.info("Offline: Returning existing cached asset", {
+        bundleId: cached.id,
+      });
+      return cached;
     }
-    console.error("[fetchAsset] Offline and no cached asset found.");
-    throw new Error("Offline and no cached asset");
+    log.error("Offline and no cached asset found.");
+    throw new BundleUnavailableOfflineError(url);
   }
-  console.log("[fetchAsset] Online mode detected.");
-
-  // Retrieve stored ETag
-  const storedEtag = await AsyncStorage.getItem(etagKey);
-  console.log(`[fetchAsset] Stored ETag: ${storedEtag}`);
-
-  // Prepare headers for conditional GET
-  const headers: HeadersInit = {};
-  if (storedEtag && info.exists) {
-    // Only send If-None-Match if we have an ETag *and* a cached file
-    headers["If-None-Match"] = storedEtag;
-    console.log(
-      `[fetchAsset] Sending GET request with If-None-Match: ${storedEtag}`
-    );
-  } else {
-    console.log(
-      "[fetchAsset] Sending unconditional GET request (no ETag or no cached file)."
-    );
+  log.debug("Online mode detected.");
+
+  // A rollback pins the active bundle until it is unpinned
+  if (cached && (await store.pinned())) {
+    log.info("Policy bundle pinned by a rollback. Skipping download.", {
+      bundleId: cached.id,
+    });
+    return cached;
   }
 
+  // A cached bundle without a recorded digest cannot be verified, so download it again
+  const cacheVerifiable = !verification || cached?.digest !== undefined;
+
+  // Send the validators of the active bundle, so an unchanged bundle is answered with 304
+  const validators: Record<string, string> = {};
+  if (cached && cacheVerifiable) {
+    if (cached.etag) {
+      validators["If-None-Match"] = cached.etag;
+    }
+    if (cached.lastModified) {
+      validators["If-Modified-Since"] = cached.lastModified;
+    }
+  }
+  log.debug("Sending conditional download request", { validators });
+
+  // Downloads land in a temporary file until they are verified and promoted
+  const downloadUri = store.downloadUri;
+  // A single request: the body is streamed to disk and the validators come from the same response
+  const download = async (refresh: boolean) => {
+    const result = await FileSystem.downloadAsync(url, downloadUri, {
+      headers: {
+        ...headers,
+        ...(await getHeaders?.({ refresh })),
+        ...validators,
+      },
+    });
+    // The MD5 digest is computed natively, so change detection never reads the file into JS
+    const downloaded = await FileSystem.getInfoAsync(downloadUri, {
+      md5: true,
+    });
+    const bytes = downloaded.exists ? downloaded.size : 0;
+    const md5 = downloaded.exists ? downloaded.md5 : undefined;
+    log.info("Download request completed", { status: result.status, bytes });
+    onTransfer?.({ status: result.status, bytes });
+    return { result, bytes, md5 };
+  };
+
   try {
-    const response = await fetch(url, { method: "GET", headers });
-    console.log(`[fetchAsset] GET request status: ${response.status}`);
-
-    if (response.status === 304) {
-      // Not Modified
-      console.log(
-        "[fetchAsset] Received 304 Not Modified. Using cached asset:",
-        localUri
-      );
-      if (!info.exists) {
-        console.error(
-          "[fetchAsset] Received 304 but cached asset does not exist. Attempting download again."
-        );
-      } else {
-        return localUri; // Asset is unchanged, return cached URI
-      }
+    await store.prepare();
+    let { result: downloadResult, bytes, md5 } = await download(false);
+
+    // Rejected credentials, e.g. an expired token: refresh them and retry once
+    if (getHeaders && isAuthorizationFailure(downloadResult.status)) {
+      log.warn("Bundle server rejected the credentials. Refreshing them.", {
+        status: downloadResult.status,
+      });
+      ({ result: downloadResult, bytes, md5 } = await download(true));
+    }
+    if (isAuthorizationFailure(downloadResult.status)) {
+      await FileSystem.deleteAsync(downloadUri, { idempotent: true });
+      throw new BundleAuthorizationError(url, downloadResult.status);
     }
 
-    if (response.ok) {
-      console.log(
-        `[fetchAsset] Received status ${response.status}. Downloading asset from ${url} to ${localUri}`
-      );
-      const downloadResult = await FileSystem.downloadAsync(url, localUri);
-      console.log(
-        `[fetchAsset] Download complete. Status: ${downloadResult.status}, URI: ${downloadResult.uri}`
+    if (downloadResult.status === 304) {
+      await FileSystem.deleteAsync(downloadUri, { idempotent: true });
+      if (cached) {
+        log.debug("Received 304 Not Modified. Using cached asset", {
+          bundleId: cached.id,
+        });
+        return cached; // Asset is unchanged, return the active bundle
+      }
+      throw new BundleDownloadError(
+        "Received 304 Not Modified but no cached asset is available",
+        url,
+        304
       );
+    }
 
-      if (downloadResult.status >= 200 && downloadResult.status < 300) {
-        const remoteEtag = response.headers.get("ETag");
-        console.log(`[fetchAsset] New remote ETag: ${remoteEtag}`);
-
-        if (remoteEtag) {
-          console.log(`[fetchAsset] Saving new ETag: ${remoteEtag}`);
-          await AsyncStorage.setItem(etagKey, remoteEtag);
-        } else {
-          if (storedEtag) {
-            console.log(
-              `[fetchAsset] Removing stored ETag (no longer provided by server).`
-            );
-            await AsyncStorage.removeItem(etagKey);
-          }
-        }
-        console.log("[fetchAsset] ETag updated/checked in AsyncStorage.");
-        return downloadResult.uri;
-      } else {
-        console.warn(
-          `[fetchAsset] FileSystem.downloadAsync failed with status: ${downloadResult.status}`
-        );
-        if (info.exists) {
-          console.warn(
-            "[fetchAsset] Download failed, returning previously cached asset:",
-            localUri
-          );
-          return localUri;
-        }
-        throw new Error(
-          `Unable to download asset (download status ${downloadResult.status}) and no cache available`
-        );
+    if (downloadResult.status < 200 || downloadResult.status >= 300) {
+      await FileSystem.deleteAsync(downloadUri, { idempotent: true });
+      log.error("Download request failed", { status: downloadResult.status });
+      if (cached) {
+        log.warn("Download failed, falling back to cached asset", {
+          status: downloadResult.status,
+          bundleId: cached.id,
+        });
+        return cached;
       }
-    } else {
-      console.error(
-        `[fetchAsset] Initial GET request failed with status: ${response.status}`
+      throw new BundleDownloadError(
+        `Download failed with status ${downloadResult.status} and no cache available`,
+        url,
+        downloadResult.status
       );
-      if (info.exists) {
-        console.warn(
-          `[fetchAsset] GET request failed (status ${response.status}), falling back to cached asset:`,
-          localUri
+    }
+
+    // Verify the download before it is promoted into the store, recording its SHA-256
+    // digest so the stored bundle can be verified again before it is loaded later
+    let digest: string | undefined;
+    if (verification) {
+      try {
+        digest = verifyBundle(
+          await sha256File(downloadUri, bytes),
+          url,
+          verification,
+          {
+            digest:
+              verification.digestHeader &&
+              headerValue(downloadResult.headers, verification.digestHeader),
+            signature: headerValue(
+              downloadResult.headers,
+              verification.signatureHeader ?? "X-Bundle-Signature"
+            ),
+          }
         );
-        return localUri;
+      } catch (error) {
+        await FileSystem.deleteAsync(downloadUri, { idempotent: true });
+        throw error;
       }
-      throw new Error(
-        `GET request failed with status ${response.status} and no cache available`
+    }
+
+    const stored = await store.promote(downloadUri, {
+      sizeBytes: bytes,
+      etag: headerValue(downloadResult.headers, "ETag"),
+      lastModified: headerValue(downloadResult.headers, "Last-Modified"),
+      md5,
+      digest,
+    });
+    if (!stored) {
+      // The server still serves a bundle that failed, so keep the last good one
+      throw new BundleDownloadError(
+        "Downloaded policy bundle previously failed to load",
+        url,
+        downloadResult.status
       );
     }
+    log.debug("Downloaded bundle promoted into the store", {
+      bundleId: stored.id,
+      etag: stored.etag,
+      lastModified: stored.lastModified,
+    });
+    onPromoted?.(stored);
+    return stored;
   } catch (error) {
-    console.error("[fetchAsset] Error during fetch/download process:", error);
-    if (info.exists) {
-      console.warn(
-        "[fetchAsset] Network/Download error, falling back to cached asset:",
-        localUri
-      );
-      return localUri;
+    if (error instanceof BundleVerificationError) {
+      log.error("Downloaded policy bundle failed verification", {
+        reason: error.reason,
+        ...error.digests,
+      });
+      onVerificationError?.(error);
+    } else if (error instanceof BundleAuthorizationError) {
+      log.error("Bundle server rejected the credentials", {
+        status: error.status,
+      });
+      onAuthorizationError?.(error);
+    } else {
+      log.error("Error during download process", { error });
+    }
+    if (cached) {
+      log.warn("Network/Download error, falling back to cached asset", {
+        bundleId: cached.id,
+      });
+      return cached;
+    }
+    if (
+      error instanceof BundleDownloadError ||
+      error instanceof BundleVerificationError ||
+      error instanceof BundleAuthorizationError
+    ) {
+      throw error;
     }
-    throw new Error(
-      `Failed to fetch or download asset and no cache available: ${error}`
+    throw new BundleDownloadError(
+      `Failed to download asset and no cache available: ${error}`,
+      url,
+      undefined,
+      { cause: error }
     );
   }
 }
+
+// Verify a stored policy bundle against the digest recorded when it was downloaded
+export async function verifyStoredBundle(
+  bundle: StoredBundle,
+  url: string,
+  verification: BundleVerificationOptions
+): Promise<void> {
+  verifyCachedBundle(
+    toHex(await sha256File(bundle.uri, bundle.sizeBytes)),
+    url,
+    verification,
+    bundle.digest ?? null
+  );
+}
+
+// Chunk size used when hashing a bundle file, so it is never held in memory as one string
+const HASH_CHUNK_BYTES = 512 * 1024;
+
+// SHA-256 digest of a file, hashed incrementally from chunks read as base64
+async function sha256File(uri: string, sizeBytes: number): Promise<Uint8Array> {
+  const hash = createSha256();
+  for (let position = 0; position < sizeBytes; position += HASH_CHUNK_BYTES) {
+    const length = Math.min(HASH_CHUNK_BYTES, sizeBytes - position);
+    hash.update(base64ToBytes(await readBundleChunk(uri, position, length)));
+  }
+  return hash.digest();
+}
+
+// Read part of a bundle file as base64, called from the WebView to load the bundle in chunks
+async function readBundleChunk(
+  uri: string,
+  position: number,
+  length: number
+): Promise<string> {
+  return FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length,
+  });
+}
+
+// Whether the bundle server rejected the request's credentials
+function isAuthorizationFailure(status: number): boolean {
+  return status === 401 || status === 403;
+}
+
+// Whether two stored bundles have the same contents, by ID or by their recorded digests
+function sameContents(
+  bundle: StoredBundle,
+  other: StoredBundle | undefined
+): boolean {
+  if (!other) {
+    return false;
+  }
+  return (
+    bundle.id === other.id ||
+    (bundle.md5 !== undefined && bundle.md5 === other.md5) ||
+    (bundle.digest !== undefined && bundle.digest === other.digest)
+  );
+}
+
+// Value of a response header, whatever the case of its name
+function headerValue(
+  headers: Record<string, string>,
+  name: string
+): string | undefined {
+  const lowerName = name.toLowerCase();
+  return Object.entries(headers).find(
+    ([key]) => key.toLowerCase() === lowerName
+  )?.[1];
+}
@@ -1,26 +1,63 @@
 "use dom";
 
-import { BundleMetadata, Embedded } from "@cerbos/embedded";
-import { DOMProps } from "expo/dom";
-import { useEffect, useState, useRef } from "react";
-import { SerializablePDPRequests } from "./CerbosContext";
+import { BundleMetadata, DecodedJWTPayload, Embedded } from "@cerbos/embedded";
+import {
+  DOMImperativeFactory,
+  DOMProps,
+  useDOMImperativeHandle,
+} from "expo/dom";
+import { forwardRef, useEffect, useMemo, useRef } from "react";
 import { CheckResourcesResponse as CheckResourcesResponsePB } from "@cerbos/embedded/lib/protobuf/cerbos/response/v1/response";
 import { Effect } from "@cerbos/embedded/lib/protobuf/cerbos/effect/v1/effect";
-import { DecisionLogEntry } from "@cerbos/core";
+import { ValidationError_Source } from "@cerbos/embedded/lib/protobuf/cerbos/schema/v1/schema";
+import {
+  CheckResourcesRequest,
+  DecisionLogEntry,
+  JWT,
+  OutputResult,
+  ValidationError,
+  Value,
+} from "@cerbos/core";
+import { createLogger, LogEvent, LogLevel } from "./Logger";
+
+// Serializable options used to build the Embedded engine
+export interface EmbeddedEngineOptions {
+  globals?: Record<string, Value>; // Global variables available to policy conditions
+  defaultPolicyVersion?: string; // Policy version used when a request does not set one
+  lenientScopeSearch?: boolean; // Fall back to the nearest parent scope when a scoped policy is missing
+}
 
 // Define the component's props interface
 interface CerbosEmbeddedPDPWebViewProps {
-  pdpb64: string;
+  bundleUri: string; // Local file URI of the policy bundle; a new URI rebuilds the engine
+  bundleSizeBytes: number; // Size of the policy bundle file
+  readBundleChunk: (
+    uri: string,
+    position: number,
+    length: number
+  ) => Promise<string>; // Reads part of the bundle file as base64, called on the native side
   refreshIntervalSeconds: number;
+  engineOptions: string; // JSON-serialized EmbeddedEngineOptions; changing it rebuilds the engine
+  decodeJWTPayload?: (jwt: JWT) => Promise<DecodedJWTPayload>; // Decodes JWTs passed in auxData, called on the native side
   loaded: (isLoaded: boolean) => void;
   dom: DOMProps;
-  requests: SerializablePDPRequests;
   handleResponse: (response: CheckResourcesResponsePB) => void;
   handleDecisionLog?: (decision: DecisionLogEntry) => void;
   handleError: (requestId: string, error: Error) => void; // Error handler callback
   handlePDPUpdated: (metadata: { updatedAt: string } & BundleMetadata) => void; // Callback for when the PDP is updated
+  handleLoadError: (error: string) => void; // Called when the engine fails to load the bundle, with the error as a string
+  logLevel: LogLevel; // Most verbose level forwarded to handleLog, filtered here to keep the bridge quiet
+  handleLog: (event: LogEvent) => void; // Forwards log events to the provider's logger
+}
+
+// Methods the provider can call on the WebView through its ref
+export interface CerbosEmbeddedPDPHandle extends DOMImperativeFactory {
+  postRequest: DOMImperativeFactory[string]; // Evaluate a JSON-serialized CheckResourcesRequest
 }
 
+// Size of each chunk of the bundle read across the bridge
+const BUNDLE_CHUNK_BYTES = 512 * 1024;
+
 function asciiToBinary(str: string) {
   if (typeof atob === "function") {
     // this works in the browser
@@ -31,137 +68,214 @@ function asciiToBinary(str: string) {
   }
 }
 
-function decode(encoded: string) {
-  var binaryString = asciiToBinary(encoded);
-  var bytes = new Uint8Array(binaryString.length);
-  for (var i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+// Read the bundle file chunk by chunk into a single buffer, so no prop or message carries
+// the whole bundle and only one chunk is held as a string at a time
+async function readBundle(
+  uri: string,
+  sizeBytes: number,
+  readChunk: CerbosEmbeddedPDPWebViewProps["readBundleChunk"]
+): Promise<ArrayBuffer> {
+  const bytes = new Uint8Array(sizeBytes);
+  for (let position = 0; position < sizeBytes; position += BUNDLE_CHUNK_BYTES) {
+    const chunk = asciiToBinary(
+      await readChunk(
+        uri,
+        position,
+        Math.min(BUNDLE_CHUNK_BYTES, sizeBytes - position)
+      )
+    );
+    for (let i = 0; i < chunk.length; i++) {
+      bytes[position + i] = chunk.charCodeAt(i);
+    }
   }
   return bytes.buffer;
 }
 
-export default function CerbosEmbeddedPDPWebView({
-  pdpb64,
-  refreshIntervalSeconds,
-  loaded,
-  requests,
-  handleResponse,
-  handleError,
-  handleDecisionLog,
-  handlePDPUpdated,
-}: CerbosEmbeddedPDPWebViewProps) {
-  const [cerbos, setCerbos] = useState<Embedded | null>(null); // Cerbos instance state
-  const processedRequestIds = useRef(new Set<string>()); // Track processed request IDs
+// Bound to a const so the default export is an identifier, as "use dom" files require,
+// while forwardRef still passes the ref when the component renders directly on web
+const CerbosEmbeddedPDPWebView = forwardRef<
+  CerbosEmbeddedPDPHandle,
+  CerbosEmbeddedPDPWebViewProps
+>(function CerbosEmbeddedPDPWebView(
+  {
+    bundleUri,
+    bundleSizeBytes,
+    readBundleChunk,
+    refreshIntervalSeconds,
+    engineOptions,
+    decodeJWTPayload,
+    loaded,
+    handleResponse,
+    handleError,
+    handleDecisionLog,
+    handlePDPUpdated,
+    handleLoadError,
+    logLevel,
+    handleLog,
+  },
+  ref
+) {
+  const handleLogRef = useRef(handleLog); // Latest log forwarder, read when an event is emitted
+  handleLogRef.current = handleLog;
+  const log = useMemo(
+    () =>
+      createLogger("CerbosWebview", {
+        level: logLevel,
+        sink: (event) => handleLogRef.current(event),
+      }),
+    [logLevel]
+  );
+
+  const cerbosRef = useRef<Embedded | null>(null); // Cerbos instance, read when a request message arrives
+  const decodeJWTPayloadRef = useRef(decodeJWTPayload); // Latest JWT decoder, read when a request carries a JWT
+  decodeJWTPayloadRef.current = decodeJWTPayload;
+  const hasJWTDecoder = decodeJWTPayload !== undefined;
+  // Latest logger and callbacks, read by the engine so that new callbacks never rebuild it
+  const engineHandlersRef = useRef({
+    log,
+    readBundleChunk,
+    loaded,
+    handlePDPUpdated,
+    handleLoadError,
+    handleDecisionLog,
+  });
+  engineHandlersRef.current = {
+    log,
+    readBundleChunk,
+    loaded,
+    handlePDPUpdated,
+    handleLoadError,
+    handleDecisionLog,
+  };
 
   // Initialize and manage the AutoUpdatingLoader
   useEffect(() => {
     let mounted = true; // Track if the component is mounted
+    const handlers = () => engineHandlersRef.current;
     try {
-      console.log("[CerbosWebview] Starting policy bundle loader...");
-      setCerbos(
-        new Embedded(decode(pdpb64), {
-          onLoad: (metadata) => {
-            console.log(
-              "[CerbosWebview] Cerbos Embedded PDP loaded successfully"
-            );
-            if (mounted) {
-              handlePDPUpdated({
-                updatedAt: new Date().toISOString(), // Pass the current
-                ...metadata, // Pass metadata
-              });
-              loaded(true); // Indicate successful loading
+      handlers().log.info("Starting policy bundle loader...");
+      const options: EmbeddedEngineOptions = JSON.parse(engineOptions);
+      // The engine loads the bundle once it has been read; read failures are reported to onError
+      const source = readBundle(
+        bundleUri,
+        bundleSizeBytes,
+        handlers().readBundleChunk
+      );
+      cerbosRef.current = new Embedded(source, {
+        ...options,
+        decodeJWTPayload: hasJWTDecoder
+          ? (jwt) => decodeJWTPayloadRef.current!(jwt)
+          : undefined,
+        onLoad: (metadata) => {
+          handlers().log.info("Cerbos Embedded PDP loaded successfully");
+          if (mounted) {
+            handlers().handlePDPUpdated({
+              updatedAt: new Date().toISOString(), // Pass the current
+              ...metadata, // Pass metadata
+            });
+            handlers().loaded(true); // Indicate successful loading
+          }
+        },
+        onError: (error) => {
+          handlers().log.error(
+            "Cerbos Embedded PDP failed to load the bundle",
+            {
+              error: String(error),
             }
-          },
-          onDecision(entry) {
-            handleDecisionLog?.(entry); // Pass decision log entry to handler
-          },
-        })
-      ); // Set the Cerbos instance
+          );
+          if (mounted) {
+            handlers().handleLoadError(String(error));
+          }
+        },
+        onDecision(entry) {
+          handlers().handleDecisionLog?.(entry); // Pass decision log entry to handler
+        },
+      }); // Set the Cerbos instance
     } catch (error) {
-      console.error(
-        "[CerbosWebview] Failed to initialize Cerbos Embedded PDP:",
-        error
-      );
-      loaded(false); // Indicate initialization failure
+      handlers().log.error("Failed to initialize Cerbos Embedded PDP", {
+        error: String(error),
+      });
+      handlers().handleLoadError(String(error));
+      handlers().loaded(false); // Indicate initialization failure
     }
 
     // Cleanup function to stop the loader on unmount
     return () => {
-      console.log("[CerbosWebview] Stopping policy bundle loader.");
-      setCerbos(null); // Clear the Cerbos instance
-      loaded(false); // Reset loaded state
+      handlers().log.info("Stopping policy bundle loader.");
+      mounted = false;
+      cerbosRef.current = null; // Clear the Cerbos instance
+      handlers().loaded(false); // Reset loaded state
     };
-  }, [pdpb64, refreshIntervalSeconds]); // Re-run if URL or interval changes
+  }, [
+    bundleUri,
+    bundleSizeBytes,
+    refreshIntervalSeconds,
+    engineOptions,
+    hasJWTDecoder,
+  ]); // Re-run if the bundle or engine options change
 
-  // Process incoming requests
-  useEffect(() => {
-    if (!cerbos) return;
-
-    Object.entries(requests).forEach(async ([requestId, requestData]) => {
-      if (processedRequestIds.current.has(requestId)) {
-        console.log(
-          `[CerbosWebview] Skipping already processed request: ${requestId}`
-        );
-        return; // Skip already processed requests
-      }
+  // Evaluate a single request posted by the provider
+  const processRequest = async (request: CheckResourcesRequest) => {
+    const requestId = request.requestId as string;
+    log.debug("Processing Cerbos request", { requestId });
 
-      processedRequestIds.current.add(requestId); // Mark request as processing
-      console.log("[CerbosWebview] Processing Cerbos request:", requestId);
-
-      try {
-        const response = await cerbos.checkResources(requestData); // Perform the check
-        console.log(
-          `[CerbosWebview] Request ${requestId} response received successfully`
-        );
-
-        // Transform and pass the response to the handler
-        handleResponse({
-          requestId: response.requestId,
-          cerbosCallId: response.cerbosCallId,
-          results: response.results.map((result) => ({
-            resource: result.resource,
-            meta: result.metadata,
-            actions: Object.fromEntries(
-              Object.entries(result.actions).map(([k, v]) => [k, Effect[v]])
-            ),
-            validationErrors: [],
-            outputs: [],
-          })),
-        });
-      } catch (error) {
-        console.error(
-          `[CerbosWebview] Error processing Cerbos request ${requestId}:`,
-          error
-        );
-        handleError(
-          requestId,
-          error instanceof Error ? error : new Error(String(error))
-        ); // Pass error to handler
-      } finally {
-        processedRequestIds.current.delete(requestId); // Remove from processing set
+    try {
+      const cerbos = cerbosRef.current;
+      if (!cerbos) {
+        throw new Error("Cerbos PDP not initialized");
       }
-    });
-  }, [cerbos, requests, handleResponse, handleError]); // Re-run if dependencies change
-
-  // Cleanup stale request IDs when requests are removed
-  useEffect(() => {
-    const currentRequestIds = new Set(Object.keys(requests));
-    const toRemove: string[] = [];
+      const response = await cerbos.checkResources(request); // Perform the check
+      log.debug("Response received successfully", { requestId });
 
-    processedRequestIds.current.forEach((id) => {
-      if (!currentRequestIds.has(id)) {
-        toRemove.push(id);
-      }
-    });
+      // Transform and pass the full evaluation result to the handler
+      handleResponse({
+        requestId: response.requestId,
+        cerbosCallId: response.cerbosCallId,
+        results: response.results.map((result) => ({
+          resource: result.resource,
+          meta: result.metadata, // Matched policies and effective derived roles
+          actions: Object.fromEntries(
+            Object.entries(result.actions).map(([k, v]) => [k, Effect[v]])
+          ),
+          validationErrors: result.validationErrors.map(
+            ({ path, message, source }: ValidationError) => ({
+              path,
+              message,
+              source: ValidationError_Source[source],
+            })
+          ),
+          outputs: result.outputs.map(({ source, value }: OutputResult) => ({
+            src: source,
+            val: value,
+          })),
+        })),
+      });
+    } catch (error) {
+      // Errors are logged as strings, since Error objects do not survive the bridge
+      log.error("Error processing Cerbos request", {
+        requestId,
+        error: String(error),
+      });
+      handleError(
+        requestId,
+        error instanceof Error ? error : new Error(String(error))
+      ); // Pass error to handler
+    }
+  };
 
-    toRemove.forEach((id) => {
-      console.log(
-        `[CerbosWebview] Cleaning up stale request ID from tracking: ${id}`
-      );
-      processedRequestIds.current.delete(id);
-    });
-  }, [requests]);
+  // Expose the message channel used by the provider to post requests
+  useDOMImperativeHandle(
+    ref,
+    () => ({
+      postRequest: (message) => {
+        processRequest(JSON.parse(String(message)));
+      },
+    }),
+    [handleResponse, handleError, log]
+  );
 
   // Render nothing as this is a background task component
   return null;
-}
+});
+
+export default CerbosEmbeddedPDPWebView;
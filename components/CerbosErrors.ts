@@ -0,0 +1,187 @@
+// Context attached to every Cerbos PDP error
+export interface PDPErrorOptions {
+  requestId?: string; // ID of the request that failed, if the error relates to one
+  cause?: unknown; // The original error that caused this one
+}
+
+// Base class for all errors raised by the CerbosProvider, so callers can tell
+// "we could not decide" apart from a denial or an unrelated error
+export class CerbosPDPError extends Error {
+  public readonly requestId: string | undefined;
+  public readonly cause: unknown;
+
+  public constructor(
+    message: string,
+    { requestId, cause }: PDPErrorOptions = {}
+  ) {
+    super(message);
+    this.name = "CerbosPDPError";
+    this.requestId = requestId;
+    this.cause = cause;
+  }
+}
+
+// Error raised when a check is made before the PDP bundle has been loaded, or when
+// a queued check gave up waiting for it to load
+export class PDPNotReadyError extends CerbosPDPError {
+  public constructor(options?: PDPErrorOptions & { waitedMs?: number }) {
+    super(
+      options?.waitedMs !== undefined
+        ? `Cerbos PDP not initialized after waiting ${options.waitedMs}ms`
+        : "Cerbos PDP not initialized",
+      options
+    );
+    this.name = "PDPNotReadyError";
+  }
+}
+
+// Error raised when the WebView does not respond to a request in time
+export class PDPTimeoutError extends CerbosPDPError {
+  public constructor(
+    public readonly timeoutMs: number,
+    options?: PDPErrorOptions
+  ) {
+    super(
+      `Request ${options?.requestId} timed out after ${timeoutMs}ms`,
+      options
+    );
+    this.name = "PDPTimeoutError";
+  }
+}
+
+// Error raised when the embedded PDP fails to evaluate a request; `cause` holds the
+// error reported by the WebView
+export class PDPEvaluationError extends CerbosPDPError {
+  public constructor(options: PDPErrorOptions) {
+    super(
+      `Evaluation of request ${options.requestId} failed: ${messageOf(
+        options.cause
+      )}`,
+      options
+    );
+    this.name = "PDPEvaluationError";
+  }
+}
+
+// Error raised when the response from the WebView cannot be converted
+export class ResponseDecodeError extends CerbosPDPError {
+  public constructor(options: PDPErrorOptions) {
+    super(
+      `Failed to decode response for request ${
+        options.requestId
+      }: ${messageOf(options.cause)}`,
+      options
+    );
+    this.name = "ResponseDecodeError";
+  }
+}
+
+// Error raised when a check is cancelled through its AbortSignal.
+// Named "AbortError" like the errors thrown by fetch, so callers can detect it either way.
+export class PDPAbortError extends CerbosPDPError {
+  public constructor(options?: PDPErrorOptions) {
+    super(
+      options?.requestId
+        ? `Request ${options.requestId} was aborted`
+        : "Request was aborted",
+      options
+    );
+    this.name = "AbortError";
+  }
+}
+
+// Error raised when the policy bundle cannot be downloaded and no cached copy exists
+export class BundleDownloadError extends CerbosPDPError {
+  public constructor(
+    message: string,
+    public readonly url: string,
+    public readonly status?: number,
+    options?: PDPErrorOptions
+  ) {
+    super(message, options);
+    this.name = "BundleDownloadError";
+  }
+}
+
+// Error raised when the device is offline and no policy bundle has been cached yet
+export class BundleUnavailableOfflineError extends CerbosPDPError {
+  public constructor(
+    public readonly url: string,
+    options?: PDPErrorOptions
+  ) {
+    super("Offline and no cached asset", options);
+    this.name = "BundleUnavailableOfflineError";
+  }
+}
+
+// Error raised when the bundle server rejects the credentials with 401 or 403, after they
+// were refreshed if a getRequestHeaders callback is set
+export class BundleAuthorizationError extends CerbosPDPError {
+  public constructor(
+    public readonly url: string,
+    public readonly status: number,
+    options?: PDPErrorOptions
+  ) {
+    super(
+      `Bundle server rejected the credentials with status ${status}`,
+      options
+    );
+    this.name = "BundleAuthorizationError";
+  }
+}
+
+// Why a policy bundle failed verification
+export type BundleVerificationFailure =
+  | "missing-digest" // No digest to check the bundle against
+  | "digest-mismatch" // The bundle's SHA-256 digest differs from the expected one
+  | "missing-signature" // A public key is configured but the response carried no signature
+  | "invalid-signature"; // The signature does not match the bundle's digest and the public key
+
+// Error raised when a downloaded or cached policy bundle fails verification; the bundle is not loaded
+export class BundleVerificationError extends CerbosPDPError {
+  public constructor(
+    public readonly reason: BundleVerificationFailure,
+    public readonly url: string,
+    public readonly digests?: { expected: string; actual: string },
+    options?: PDPErrorOptions
+  ) {
+    super(
+      digests
+        ? `Policy bundle failed verification (${reason}): expected SHA-256 ${digests.expected}, got ${digests.actual}`
+        : `Policy bundle failed verification (${reason})`,
+      options
+    );
+    this.name = "BundleVerificationError";
+  }
+}
+
+// Error raised when a request has no principal and none has been set on the provider
+export class NoPrincipalError extends CerbosPDPError {
+  public constructor(options?: PDPErrorOptions) {
+    super(
+      "No principal given in the request and none set with setPrincipal",
+      options
+    );
+    this.name = "NoPrincipalError";
+  }
+}
+
+// Error raised when a JWT passed in auxData cannot be decoded or fails verification
+export class InvalidJWTError extends CerbosPDPError {
+  public constructor(message: string, options?: PDPErrorOptions) {
+    super(message, options);
+    this.name = "InvalidJWTError";
+  }
+}
+
+// Message of an unknown thrown value, for building error messages
+function messageOf(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  // Errors passed across the WebView bridge arrive as plain objects
+  if (error && typeof error === "object" && "message" in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+}
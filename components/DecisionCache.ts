@@ -0,0 +1,100 @@
+// Serialize a value to JSON with object keys sorted, so that requests which differ
+// only in key order produce the same cache key
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+// Options for the in-memory decision cache
+export interface DecisionCacheOptions {
+  ttlMs?: number; // How long a decision stays valid (default: 60000ms)
+  maxEntries?: number; // Max number of cached decisions, oldest are evicted first (default: 500)
+}
+
+interface CacheEntry<T> {
+  value: T; // The cached decision
+  expiresAt: number; // Timestamp after which the entry is stale
+}
+
+// In-memory cache of PDP decisions with a TTL and a size limit.
+// Entries are bound to the policy bundle commit they were evaluated against and
+// are flushed when a bundle with a different commit is loaded.
+export class DecisionCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private currentCommit: string | undefined;
+
+  public constructor({
+    ttlMs = 60000,
+    maxEntries = 500,
+  }: DecisionCacheOptions) {
+    this.ttlMs = ttlMs;
+    this.maxEntries = maxEntries;
+  }
+
+  // Commit of the bundle the cached decisions were evaluated against
+  public get commit(): string | undefined {
+    return this.currentCommit;
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert so that Map iteration order tracks recency of use
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  // Store a decision evaluated against the given bundle commit. Decisions from a
+  // bundle that has since been replaced are discarded.
+  public set(key: string, value: T, commit: string | undefined): void {
+    if (commit !== this.currentCommit) {
+      return;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+
+    // Evict least recently used entries beyond the size limit
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  // Record the commit of the loaded bundle, flushing all entries if it changed.
+  // Returns true if the cache was flushed.
+  public setCommit(commit: string): boolean {
+    if (this.currentCommit === commit) {
+      return false;
+    }
+    const flushed = this.currentCommit !== undefined;
+    this.currentCommit = commit;
+    this.clear();
+    return flushed;
+  }
+}
@@ -0,0 +1,120 @@
+import { DecisionLogEntry, Effect, PlanKind } from "@cerbos/core";
+
+// A decision kept for the in-app decision log viewer
+export interface RecentDecision {
+  entry: DecisionLogEntry; // The decision log entry, after the provider's decisionLogRules
+  commit: string | undefined; // Commit of the policy bundle that made the decision, undefined for fallback decisions
+}
+
+// One action decided for one resource, as listed by the decision log viewer
+export interface DecisionRow {
+  principalId: string;
+  kind: string;
+  resourceId: string | undefined; // Undefined for query plans, which cover every resource of a kind
+  action: string;
+  effect: "allow" | "deny" | "conditional"; // "conditional" only for query plans
+}
+
+// Criteria for finding decisions; empty criteria match everything
+export interface DecisionLogQuery {
+  principal?: string; // Substring of the principal ID
+  kind?: string; // Substring of the resource kind
+  action?: string; // Substring of the action
+  effect?: "allow" | "deny";
+}
+
+// Fixed-size buffer of the most recent decisions, which components can subscribe to
+export class DecisionLogBuffer {
+  private decisions: RecentDecision[] = []; // Replaced on every change, so snapshots can be compared by identity
+  private listeners = new Set<() => void>();
+
+  public constructor(private capacity: number) {}
+
+  // Add a decision, evicting the oldest once the buffer is full
+  public push(decision: RecentDecision): void {
+    if (this.capacity <= 0) {
+      return; // A buffer without capacity is disabled
+    }
+    this.decisions = [...this.decisions, decision].slice(-this.capacity);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  public clear(): void {
+    this.decisions = [];
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Decisions currently buffered, oldest first
+  public snapshot = (): RecentDecision[] => this.decisions;
+
+  // Call `listener` whenever the buffer changes, until the returned function is called
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+// Flatten a decision log entry into one row per resource and action
+export function decisionRows({ method }: DecisionLogEntry): DecisionRow[] {
+  if (method.name === "PlanResources") {
+    const { input, output } = method;
+    return [
+      {
+        principalId: input.principal.id,
+        kind: input.resource.kind,
+        resourceId: undefined,
+        action: input.action,
+        effect: planEffect(output.kind),
+      },
+    ];
+  }
+
+  // Inputs and outputs of a check are in the same order, one pair per resource
+  return method.inputs.flatMap((input, i) =>
+    input.actions.map((action) => ({
+      principalId: input.principal.id,
+      kind: input.resource.kind,
+      resourceId: input.resource.id,
+      action,
+      effect:
+        method.outputs[i]?.actions[action]?.effect === Effect.ALLOW
+          ? "allow"
+          : "deny",
+    }))
+  );
+}
+
+function planEffect(kind: PlanKind): DecisionRow["effect"] {
+  if (kind === PlanKind.ALWAYS_ALLOWED) {
+    return "allow";
+  }
+  if (kind === PlanKind.ALWAYS_DENIED) {
+    return "deny";
+  }
+  return "conditional";
+}
+
+// Whether any row of a decision matches every criterion of the query
+export function matchesQuery(
+  entry: DecisionLogEntry,
+  { principal, kind, action, effect }: DecisionLogQuery
+): boolean {
+  const contains = (value: string, search: string | undefined) =>
+    !search || value.toLowerCase().includes(search.toLowerCase());
+  return decisionRows(entry).some(
+    (row) =>
+      contains(row.principalId, principal) &&
+      contains(row.kind, kind) &&
+      contains(row.action, action) &&
+      (!effect || row.effect === effect)
+  );
+}
+
+// Serialize decisions as JSON Lines, one decision per line
+export function toJSONL(decisions: RecentDecision[]): string {
+  return decisions
+    .map(({ entry, commit }) => JSON.stringify({ ...entry, commit }))
+    .join("\n");
+}
@@ -0,0 +1,162 @@
+import {
+  CheckInput,
+  CheckOutput,
+  DecisionLogEntry,
+  Effect,
+  PlanKind,
+} from "@cerbos/core";
+import { sha256Hex } from "./Sha256";
+
+// Rules applied to decision log entries before they reach onDecision or the decision log journal
+export interface DecisionLogRules {
+  dropPaths?: string[]; // Paths removed from each input, e.g. "principal.attr.email" or "auxData.jwt.sub"
+  hashPaths?: string[]; // Paths whose values are replaced by "sha256:<hex digest>", so entries can still be correlated
+  hashSalt?: string; // Prepended to values before hashing, so common values cannot be looked up
+  excludeKinds?: string[]; // Resource kinds whose decisions are not logged
+  excludeActions?: string[]; // Actions whose decisions are not logged
+  sampleRates?: { allow?: number; deny?: number }; // Fraction of entries kept, by effect (default: 1, keep all)
+}
+
+// Redact, filter and sample a decision log entry, returning undefined if it should not be logged
+export type DecisionLogFilter = (
+  entry: DecisionLogEntry
+) => DecisionLogEntry | undefined;
+
+// Create a filter applying the given rules. Entries are copied, never modified in place.
+export function createDecisionLogFilter(
+  {
+    dropPaths = [],
+    hashPaths = [],
+    hashSalt = "",
+    excludeKinds = [],
+    excludeActions = [],
+    sampleRates = {},
+  }: DecisionLogRules,
+  random: () => number = Math.random
+): DecisionLogFilter {
+  const excludedKinds = new Set(excludeKinds);
+  const excludedActions = new Set(excludeActions);
+  const drop = dropPaths.map(splitPath);
+  const hash = hashPaths.map(splitPath);
+
+  // Remove and hash the configured paths of a check or plan input
+  const redact = <T extends object>(input: T): T => {
+    let redacted = input;
+    drop.forEach((path) => {
+      redacted = updatePath(redacted, path, () => undefined);
+    });
+    hash.forEach((path) => {
+      redacted = updatePath(redacted, path, (value) =>
+        value === undefined
+          ? undefined
+          : `sha256:${sha256Hex(
+              hashSalt +
+                (typeof value === "string" ? value : JSON.stringify(value))
+            )}`
+      );
+    });
+    return redacted;
+  };
+
+  return (entry) => {
+    const { method } = entry;
+
+    if (method.name === "PlanResources") {
+      if (
+        excludedKinds.has(method.input.resource.kind) ||
+        excludedActions.has(method.input.action)
+      ) {
+        return undefined;
+      }
+      const denied =
+        method.error !== undefined ||
+        method.output.kind === PlanKind.ALWAYS_DENIED;
+      if (!sampled(denied ? sampleRates.deny : sampleRates.allow, random)) {
+        return undefined;
+      }
+      return {
+        ...entry,
+        method: { ...method, input: redact(method.input) },
+      };
+    }
+
+    // Inputs and outputs of a check are in the same order, one pair per resource
+    const pairs = method.inputs
+      .map((input: CheckInput, i: number) => ({
+        input,
+        output: method.outputs[i] as CheckOutput | undefined,
+      }))
+      .filter(({ input }) => !excludedKinds.has(input.resource.kind))
+      .map(({ input, output }) => ({
+        input: {
+          ...input,
+          actions: input.actions.filter(
+            (action) => !excludedActions.has(action)
+          ),
+        },
+        output: output && {
+          ...output,
+          actions: Object.fromEntries(
+            Object.entries(output.actions).filter(
+              ([action]) => !excludedActions.has(action)
+            )
+          ),
+        },
+      }))
+      .filter(({ input }) => input.actions.length > 0);
+    if (pairs.length === 0) {
+      return undefined;
+    }
+
+    const denied =
+      method.error !== undefined ||
+      pairs.some(({ output }) =>
+        Object.values(output?.actions ?? {}).some(
+          (effect) => effect?.effect === Effect.DENY
+        )
+      );
+    if (!sampled(denied ? sampleRates.deny : sampleRates.allow, random)) {
+      return undefined;
+    }
+
+    return {
+      ...entry,
+      method: {
+        ...method,
+        inputs: pairs.map(({ input }) => redact(input)),
+        outputs: pairs.flatMap(({ output }) => (output ? [output] : [])),
+      },
+    };
+  };
+}
+
+// Whether to keep an entry given the sample rate for its effect
+function sampled(rate: number | undefined, random: () => number): boolean {
+  return rate === undefined || rate >= 1 || random() < rate;
+}
+
+function splitPath(path: string): string[] {
+  return path.split(".").filter((segment) => segment.length > 0);
+}
+
+// Copy of `value` with the value at `path` replaced, copying only the objects along the path.
+// Returning undefined from `update` removes the key.
+function updatePath<T>(
+  value: T,
+  [key, ...rest]: string[],
+  update: (current: unknown) => unknown
+): T {
+  if (
+    key === undefined ||
+    value === null ||
+    typeof value !== "object" ||
+    Array.isArray(value) ||
+    !(key in value)
+  ) {
+    return value;
+  }
+  const { [key]: current, ...others } = value as Record<string, unknown>;
+  const updated =
+    rest.length > 0 ? updatePath(current, rest, update) : update(current);
+  return (updated === undefined ? others : { ...others, [key]: updated }) as T;
+}
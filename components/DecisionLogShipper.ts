@@ -0,0 +1,264 @@
+import type { DecisionLogEntry } from "@cerbos/core";
+import { createLogger, Logger } from "./Logger";
+
+// Storage for the entries that have not been uploaded yet
+export interface DecisionLogJournal {
+  read: () => Promise<string | null>; // Contents of the last write, or null if nothing was written
+  write: (contents: string) => Promise<void>; // Replace the stored contents
+}
+
+// Settings for uploading decision logs to a central audit store
+export interface DecisionLogShipperOptions {
+  endpoint: string; // URL that batches are POSTed to, as JSON of the form { "entries": [...] }
+  headers?: Record<string, string>; // Extra request headers, e.g. an API key
+  batchSize?: number; // Max entries per upload (default: 50)
+  flushIntervalMs?: number; // How often entries short of a full batch are uploaded (default: 30000ms)
+  maxEntries?: number; // Max entries kept on the device (default: 10000)
+  dropPolicy?: "drop-oldest" | "drop-newest"; // Which entries are discarded once maxEntries is reached (default: "drop-oldest")
+  initialBackoffMs?: number; // Delay before retrying a failed upload, doubled after each failure (default: 1000ms)
+  maxBackoffMs?: number; // Upper bound on the retry delay (default: 300000ms)
+  journalWriteDelayMs?: number; // How long changes are collected before the journal is rewritten (default: 1000ms)
+}
+
+// Counters describing the shipper's activity since it was created
+export interface DecisionLogShipperStats {
+  uploaded: number; // Entries accepted by the endpoint
+  dropped: number; // Entries discarded because the journal was full
+  rejected: number; // Entries discarded because the endpoint refused them with a client error
+  failedUploads: number; // Upload attempts that will be retried
+}
+
+// Keeps decision log entries in an on-device journal and uploads them in batches,
+// retrying with exponential backoff while the endpoint or the network is unavailable
+export class DecisionLogShipper {
+  private entries: DecisionLogEntry[] = [];
+  private loaded: Promise<void> | undefined;
+  private journalReady = false; // False until the journal has been read, so it is not overwritten before
+  private writeTimeoutId: ReturnType<typeof setTimeout> | undefined; // Pending journal write
+  private writes: Promise<void> = Promise.resolve();
+  private online = true;
+  private uploading = false;
+  private failures = 0; // Consecutive failed uploads, used to compute the backoff
+  private retryTimeoutId: ReturnType<typeof setTimeout> | undefined;
+  private flushIntervalId: ReturnType<typeof setInterval> | undefined;
+  private log: Logger;
+
+  public readonly stats: DecisionLogShipperStats = {
+    uploaded: 0,
+    dropped: 0,
+    rejected: 0,
+    failedUploads: 0,
+  };
+
+  public constructor(
+    private options: DecisionLogShipperOptions,
+    private journal: DecisionLogJournal,
+    logger?: Logger
+  ) {
+    this.log = logger ?? createLogger("DecisionLogShipper");
+  }
+
+  // Number of entries waiting to be uploaded
+  public get pending(): number {
+    return this.entries.length;
+  }
+
+  // Restore the journal and start uploading periodically
+  public start(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.journal
+        .read()
+        .then((contents) => {
+          const saved: DecisionLogEntry[] = contents
+            ? JSON.parse(contents)
+            : [];
+          // Entries appended while the journal was being read come after the saved ones
+          this.entries = [...saved, ...this.entries];
+          this.log.debug("Restored decision log journal", {
+            entries: saved.length,
+          });
+        })
+        .catch((error) => {
+          this.log.error("Failed to read decision log journal", { error });
+        })
+        .then(() => {
+          this.journalReady = true;
+          this.trim();
+          this.persist();
+        });
+    }
+    if (this.flushIntervalId === undefined) {
+      this.flushIntervalId = setInterval(
+        () => this.flush(),
+        this.options.flushIntervalMs ?? 30000
+      );
+    }
+    return this.loaded.then(() => this.flush());
+  }
+
+  // Stop uploading and write any pending changes; entries stay in the journal until the
+  // shipper is started again
+  public stop(): void {
+    clearInterval(this.flushIntervalId);
+    clearTimeout(this.retryTimeoutId);
+    this.flushIntervalId = undefined;
+    this.retryTimeoutId = undefined;
+    if (this.writeTimeoutId !== undefined) {
+      this.writeJournal();
+    }
+  }
+
+  // Record connectivity changes; coming back online retries straight away
+  public setOnline(online: boolean): void {
+    this.online = online;
+    if (online && this.entries.length > 0) {
+      clearTimeout(this.retryTimeoutId);
+      this.retryTimeoutId = undefined;
+      this.flush();
+    }
+  }
+
+  // Add an entry to the journal, uploading once a full batch is waiting
+  public append(entry: DecisionLogEntry): void {
+    this.entries.push(entry);
+    this.trim();
+    this.persist();
+    if (this.entries.length >= this.batchSize) {
+      this.flush();
+    }
+  }
+
+  // Upload waiting entries batch by batch until none are left or an upload fails
+  public async flush(): Promise<void> {
+    if (
+      !this.journalReady ||
+      this.uploading ||
+      !this.online ||
+      this.retryTimeoutId !== undefined
+    ) {
+      return;
+    }
+
+    this.uploading = true;
+    try {
+      while (this.entries.length > 0 && (await this.uploadBatch())) {
+        this.failures = 0;
+      }
+    } finally {
+      this.uploading = false;
+    }
+  }
+
+  // Upload the oldest batch, returning whether the next one can be sent
+  private async uploadBatch(): Promise<boolean> {
+    const batch = this.entries.slice(0, this.batchSize);
+    let status: number | undefined;
+    let cause: unknown;
+    try {
+      const response = await fetch(this.options.endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...this.options.headers,
+        },
+        body: JSON.stringify({ entries: batch }),
+      });
+      status = response.status;
+      if (response.ok) {
+        this.remove(batch);
+        this.stats.uploaded += batch.length;
+        this.log.debug("Uploaded decision log batch", {
+          entries: batch.length,
+        });
+        return true;
+      }
+      if (!isRetryableStatus(status)) {
+        // Retrying a batch the endpoint refuses would block every entry behind it
+        this.remove(batch);
+        this.stats.rejected += batch.length;
+        this.log.error("Decision log endpoint rejected batch", {
+          status,
+          entries: batch.length,
+        });
+        return true;
+      }
+    } catch (error) {
+      cause = error; // Network failure
+    }
+
+    this.failures++;
+    this.stats.failedUploads++;
+    const delayMs = Math.min(
+      (this.options.initialBackoffMs ?? 1000) * 2 ** (this.failures - 1),
+      this.options.maxBackoffMs ?? 300000
+    );
+    this.log.warn("Decision log upload failed, retrying", {
+      status,
+      error: cause,
+      delayMs,
+      pending: this.entries.length,
+    });
+    this.retryTimeoutId = setTimeout(() => {
+      this.retryTimeoutId = undefined;
+      this.flush();
+    }, delayMs);
+    return false;
+  }
+
+  private get batchSize(): number {
+    return this.options.batchSize ?? 50;
+  }
+
+  // Remove uploaded entries; some may already have been dropped while the upload was in flight
+  private remove(batch: DecisionLogEntry[]): void {
+    const sent = new Set(batch);
+    this.entries = this.entries.filter((entry) => !sent.has(entry));
+    this.persist();
+  }
+
+  // Enforce maxEntries using the drop policy
+  private trim(): void {
+    const overflow = this.entries.length - (this.options.maxEntries ?? 10000);
+    if (overflow <= 0) {
+      return;
+    }
+    if (this.options.dropPolicy === "drop-newest") {
+      this.entries.splice(this.entries.length - overflow);
+    } else {
+      this.entries.splice(0, overflow);
+    }
+    this.stats.dropped += overflow;
+    this.log.warn("Decision log journal full. Dropped entries.", {
+      dropped: overflow,
+      dropPolicy: this.options.dropPolicy ?? "drop-oldest",
+    });
+  }
+
+  // Schedule a journal write, folding every change made within journalWriteDelayMs into it,
+  // so a burst of decisions rewrites the journal once rather than once per entry
+  private persist(): void {
+    if (!this.journalReady || this.writeTimeoutId !== undefined) {
+      return;
+    }
+    this.writeTimeoutId = setTimeout(
+      () => this.writeJournal(),
+      this.options.journalWriteDelayMs ?? 1000
+    );
+  }
+
+  // Write the journal now, after any write already in progress
+  private writeJournal(): void {
+    clearTimeout(this.writeTimeoutId);
+    this.writeTimeoutId = undefined;
+    this.writes = this.writes
+      .then(() => this.journal.write(JSON.stringify(this.entries)))
+      .catch((error) => {
+        this.log.error("Failed to write decision log journal", { error });
+      });
+  }
+}
+
+// Server errors, timeouts and rate limiting are worth retrying; other client errors are not
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
@@ -0,0 +1,160 @@
+import {
+  CheckResourcesRequest,
+  CheckResourcesResponse,
+  CheckResourcesResult,
+  DecisionLogEntry,
+  Effect,
+  Principal,
+  Resource,
+} from "@cerbos/core";
+
+// Policy name reported for every action decided by the fallback, instead of a real policy
+export const FALLBACK_POLICY = "cerbos-epdp-fallback";
+
+// A kind of resource and the actions that are allowed on it while no bundle is loaded
+export interface FallbackAllowRule {
+  kind: string; // Resource kind the rule applies to
+  actions: string[]; // Allowed actions, or ["*"] for every action
+}
+
+// Custom decision function used while no bundle is loaded
+export type FallbackDecider = (
+  principal: Principal,
+  resource: Resource,
+  action: string
+) => boolean;
+
+// How checks are decided when no policy bundle could be loaded:
+// deny everything, allow only the listed kind/action pairs, or ask a custom function
+export type FallbackMode =
+  "deny-all" | { allow: FallbackAllowRule[] } | FallbackDecider;
+
+// Decide a single action according to the fallback mode
+function isAllowedByFallback(
+  mode: FallbackMode,
+  principal: Principal,
+  resource: Resource,
+  action: string
+): boolean {
+  if (mode === "deny-all") {
+    return false;
+  }
+  if (typeof mode === "function") {
+    return mode(principal, resource, action);
+  }
+  return mode.allow.some(
+    (rule) =>
+      rule.kind === resource.kind &&
+      (rule.actions.includes("*") || rule.actions.includes(action))
+  );
+}
+
+// Build the synthetic response to a request decided by the fallback. Every action's
+// metadata names FALLBACK_POLICY as the matched policy so the decision can be told apart.
+export function fallbackResponse(
+  mode: FallbackMode,
+  request: CheckResourcesRequest
+): CheckResourcesResponse {
+  return new CheckResourcesResponse({
+    cerbosCallId: "",
+    requestId: request.requestId ?? "",
+    results: request.resources.map(
+      ({ resource, actions }: { resource: Resource; actions: string[] }) =>
+        new CheckResourcesResult({
+          resource: {
+            kind: resource.kind,
+            id: resource.id,
+            policyVersion: resource.policyVersion ?? "default",
+            scope: resource.scope ?? "",
+          },
+          actions: Object.fromEntries(
+            actions.map((action) => [
+              action,
+              isAllowedByFallback(mode, request.principal, resource, action)
+                ? Effect.ALLOW
+                : Effect.DENY,
+            ])
+          ),
+          validationErrors: [],
+          metadata: {
+            actions: Object.fromEntries(
+              actions.map((action) => [
+                action,
+                { matchedPolicy: FALLBACK_POLICY, matchedScope: "" },
+              ])
+            ),
+            effectiveDerivedRoles: [],
+          },
+          outputs: [],
+        })
+    ),
+  });
+}
+
+// Whether a response was produced by the fallback rather than the ePDP
+export function isFallbackResponse(response: CheckResourcesResponse): boolean {
+  return response.results.some((result) =>
+    Object.values(result.metadata?.actions ?? {}).some(
+      (effect) => effect.matchedPolicy === FALLBACK_POLICY
+    )
+  );
+}
+
+// Build the decision log entry reporting a fallback decision through onDecision
+export function fallbackDecisionLogEntry(
+  request: CheckResourcesRequest,
+  response: CheckResourcesResponse
+): DecisionLogEntry {
+  const principal: Principal = request.principal;
+  const requestId = request.requestId ?? "";
+  return {
+    callId: `${FALLBACK_POLICY}:${requestId}`,
+    timestamp: new Date(),
+    peer: { address: "", authInfo: "", userAgent: "", forwardedFor: "" },
+    metadata: { fallback: ["true"] },
+    auditTrail: { effectivePolicies: {} },
+    method: {
+      name: "CheckResources",
+      inputs: request.resources.map(
+        ({ resource, actions }: { resource: Resource; actions: string[] }) => ({
+          requestId,
+          principal: {
+            id: principal.id,
+            roles: principal.roles,
+            attr: principal.attr ?? principal.attributes ?? {},
+            policyVersion: principal.policyVersion ?? "default",
+            scope: principal.scope ?? "",
+          },
+          resource: {
+            kind: resource.kind,
+            id: resource.id,
+            attr: resource.attr ?? resource.attributes ?? {},
+            policyVersion: resource.policyVersion ?? "default",
+            scope: resource.scope ?? "",
+          },
+          actions,
+          auxData: undefined,
+        })
+      ),
+      outputs: response.results.map((result) => ({
+        requestId,
+        resourceId: result.resource.id,
+        actions: Object.fromEntries(
+          Object.entries(result.actions).map(([action, effect]) => [
+            action,
+            { effect: effect!, policy: FALLBACK_POLICY, scope: "" },
+          ])
+        ),
+        effectiveDerivedRoles: [],
+        validationErrors: [],
+        outputs: [],
+      })),
+      error: undefined,
+    },
+  };
+}
+
+// Whether a decision log entry was built by fallbackDecisionLogEntry
+export function isFallbackDecisionLogEntry(entry: DecisionLogEntry): boolean {
+  return entry.callId.startsWith(`${FALLBACK_POLICY}:`);
+}
@@ -0,0 +1,60 @@
+import { CheckResourcesResponse } from "@cerbos/core";
+import { PDPAbortError, PDPTimeoutError } from "./CerbosErrors";
+
+// An evaluation in flight on behalf of one or more identical checks
+export interface InFlightRequest {
+  requestId: string; // ID of the queued request
+  promise: Promise<CheckResourcesResponse>; // Settles when the evaluation completes
+  controller: AbortController; // Cancels the queued request, with the error of the last caller to leave as the reason
+  callers: number; // Number of callers still waiting for the result
+}
+
+// Wait for a shared in-flight evaluation on behalf of one caller. Each caller races the
+// evaluation against its own timeout and abort signal, so a caller can abort or time out
+// without affecting the other callers; the queued request itself is cancelled once every
+// caller has left.
+export function waitForInFlight(
+  entry: InFlightRequest,
+  signal?: AbortSignal,
+  timeoutMs?: number
+): Promise<CheckResourcesResponse> {
+  entry.callers++;
+
+  return new Promise<CheckResourcesResponse>((resolve, reject) => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const detach = () => {
+      signal?.removeEventListener("abort", onAbort);
+      if (timeoutId) clearTimeout(timeoutId);
+    };
+    const leave = (error: Error) => {
+      detach();
+      entry.callers--;
+      if (entry.callers === 0) {
+        entry.controller.abort(error);
+      }
+      reject(error);
+    };
+    const onAbort = () =>
+      leave(new PDPAbortError({ requestId: entry.requestId }));
+
+    signal?.addEventListener("abort", onAbort);
+    if (timeoutMs !== undefined) {
+      timeoutId = setTimeout(
+        () =>
+          leave(new PDPTimeoutError(timeoutMs, { requestId: entry.requestId })),
+        timeoutMs
+      );
+    }
+
+    entry.promise.then(
+      (response) => {
+        detach();
+        resolve(response);
+      },
+      (error) => {
+        detach();
+        reject(error);
+      }
+    );
+  });
+}
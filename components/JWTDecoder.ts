@@ -0,0 +1,100 @@
+import { JWT, Value } from "@cerbos/core";
+import { DecodedJWTPayload, DecodeJWTPayload } from "@cerbos/embedded";
+import { InvalidJWTError } from "./CerbosErrors";
+
+// The parts of a JWT, as passed to a verification function
+export interface DecodedJWT {
+  header: Record<string, Value>; // Decoded JOSE header, e.g. `alg` and `kid`
+  payload: DecodedJWTPayload; // Decoded claims
+  signingInput: string; // `<header>.<payload>` as it appears in the token, the input to the signature
+  signature: string; // Base64url-encoded signature
+  keySetId: string | undefined; // ID of the key set the token should be verified against, from auxData
+}
+
+// Settings for decoding and verifying JWTs on the device
+export interface JWTDecoderOptions {
+  verify: ((token: DecodedJWT) => boolean | Promise<boolean>) | false; // Checks the signature, e.g. against a JWKS cached on the device; false skips the check and trusts any well-formed token
+  issuer?: string; // Expected `iss` claim
+  audience?: string; // Expected `aud` claim, or one of its values
+  clockToleranceSeconds?: number; // Allowed clock skew when checking `exp` and `nbf` (default: 60)
+  now?: () => number; // Current time in milliseconds, for testing (default: Date.now)
+}
+
+// Decode a JWT without verifying it
+export function decodeJWT({ token, keySetId }: JWT): DecodedJWT {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new InvalidJWTError("JWT must have three parts");
+  }
+  const [header, payload, signature] = parts;
+  try {
+    return {
+      header: JSON.parse(base64UrlDecode(header)),
+      payload: JSON.parse(base64UrlDecode(payload)),
+      signingInput: `${header}.${payload}`,
+      signature,
+      keySetId,
+    };
+  } catch (error) {
+    throw new InvalidJWTError("JWT is not valid base64url-encoded JSON", {
+      cause: error,
+    });
+  }
+}
+
+// Create a decoder for the JWTs passed in auxData that works offline. It checks the
+// time, issuer and audience claims, and the signature unless `verify` is explicitly false.
+export function createJWTDecoder({
+  verify,
+  issuer,
+  audience,
+  clockToleranceSeconds = 60,
+  now = Date.now,
+}: JWTDecoderOptions): DecodeJWTPayload {
+  return async (jwt) => {
+    const decoded = decodeJWT(jwt);
+    const { payload } = decoded;
+    const nowSeconds = now() / 1000;
+
+    if (
+      typeof payload.exp === "number" &&
+      nowSeconds > payload.exp + clockToleranceSeconds
+    ) {
+      throw new InvalidJWTError("JWT has expired");
+    }
+    if (
+      typeof payload.nbf === "number" &&
+      nowSeconds < payload.nbf - clockToleranceSeconds
+    ) {
+      throw new InvalidJWTError("JWT is not valid yet");
+    }
+    if (issuer !== undefined && payload.iss !== issuer) {
+      throw new InvalidJWTError(`JWT issuer ${payload.iss} is not ${issuer}`);
+    }
+    if (audience !== undefined) {
+      const audiences = Array.isArray(payload.aud)
+        ? payload.aud
+        : [payload.aud];
+      if (!audiences.includes(audience)) {
+        throw new InvalidJWTError(`JWT audience does not include ${audience}`);
+      }
+    }
+    if (verify && !(await verify(decoded))) {
+      throw new InvalidJWTError("JWT signature verification failed");
+    }
+    return payload;
+  };
+}
+
+// Decode a base64url string to text, handling UTF-8 characters in claims
+function base64UrlDecode(input: string): string {
+  const base64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  // Percent-encode each byte so decodeURIComponent reassembles multi-byte characters
+  return decodeURIComponent(
+    Array.from(
+      binary,
+      (char) => `%${char.charCodeAt(0).toString(16).padStart(2, "0")}`
+    ).join("")
+  );
+}
@@ -0,0 +1,113 @@
+// Log levels, from quietest to most verbose
+export type LogLevel = "silent" | "error" | "warn" | "info" | "debug";
+
+const levelRank: Record<LogLevel, number> = {
+  silent: 0,
+  error: 1,
+  warn: 2,
+  info: 3,
+  debug: 4,
+};
+
+// Context attached to a log event
+export interface LogFields {
+  requestId?: string; // ID of the request the event relates to
+  [field: string]: unknown; // Any other structured data
+}
+
+// A structured log event
+export interface LogEvent {
+  level: Exclude<LogLevel, "silent">; // Severity of the event
+  tag: string; // Component that emitted the event, e.g. "CerbosProvider"
+  message: string; // Human-readable description
+  requestId: string | undefined; // ID of the request the event relates to
+  fields: Record<string, unknown>; // Other structured data
+  timestamp: string; // ISO 8601 time the event was emitted
+}
+
+// Destination for log events that pass the level filter
+export type LogSink = (event: LogEvent) => void;
+
+// Settings for the logger used by the CerbosProvider and its WebView
+export interface LoggerOptions {
+  level?: LogLevel; // Most verbose level emitted (default: "debug" in development, "error" in release builds)
+  sink?: LogSink; // Receives every emitted event (default: the console)
+}
+
+// Logger bound to a component tag
+export interface Logger {
+  error(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  debug(message: string, fields?: LogFields): void;
+  enabled(level: LogLevel): boolean; // Whether events at this level are emitted
+  emit(event: LogEvent): void; // Emit an event created elsewhere, e.g. forwarded from the WebView
+  withTag(tag: string): Logger; // Logger for another component sharing the same settings
+}
+
+// Default level: everything while developing, only errors in release builds
+export const defaultLogLevel: LogLevel = __DEV__ ? "debug" : "error";
+
+// Write events to the console, in the `[Tag] message` format used before structured logging
+export const consoleSink: LogSink = ({
+  level,
+  tag,
+  message,
+  requestId,
+  fields,
+}) => {
+  const write = level === "info" ? console.log : console[level];
+  const context = requestId !== undefined ? { requestId, ...fields } : fields;
+  if (Object.keys(context).length > 0) {
+    write(`[${tag}] ${message}`, context);
+  } else {
+    write(`[${tag}] ${message}`);
+  }
+};
+
+// Build a structured log event
+export function logEvent(
+  level: LogEvent["level"],
+  tag: string,
+  message: string,
+  { requestId, ...fields }: LogFields = {}
+): LogEvent {
+  return {
+    level,
+    tag,
+    message,
+    requestId,
+    fields,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+// Create a logger that emits events at or above `level` to `sink`
+export function createLogger(
+  tag: string,
+  { level = defaultLogLevel, sink = consoleSink }: LoggerOptions = {}
+): Logger {
+  const enabled = (eventLevel: LogLevel) =>
+    eventLevel !== "silent" && levelRank[eventLevel] <= levelRank[level];
+  const log =
+    (eventLevel: LogEvent["level"]) =>
+    (message: string, fields?: LogFields) => {
+      if (enabled(eventLevel)) {
+        sink(logEvent(eventLevel, tag, message, fields));
+      }
+    };
+
+  return {
+    error: log("error"),
+    warn: log("warn"),
+    info: log("info"),
+    debug: log("debug"),
+    enabled,
+    emit: (event) => {
+      if (enabled(event.level)) {
+        sink(event);
+      }
+    },
+    withTag: (otherTag) => createLogger(otherTag, { level, sink }),
+  };
+}
@@ -0,0 +1,40 @@
+import type { PDPQueueMetrics } from "./PDPRequestQueue";
+
+// Round-trip latency percentiles in milliseconds
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+// Snapshot of the PDP bridge's counters, queue and bundle, as reported by useCerbosStats and onMetrics
+export interface PDPMetrics extends PDPQueueMetrics {
+  bundleLoadMs: number | undefined; // Time from fetching the policy bundle to the engine reporting it loaded
+  bundleSizeBytes: number | undefined; // Size of the loaded policy bundle
+  bundleDownloads: number; // Bundle checks that downloaded a changed bundle
+  bundleNotModified: number; // Bundle checks answered with 304 Not Modified
+  bundleBytesTransferred: number; // Bytes of bundle responses written to disk, including failed downloads
+}
+
+// Outcome of one conditional bundle download, as reported by fetchAsset
+export interface BundleTransfer {
+  status: number; // HTTP status of the response
+  bytes: number; // Size of the response body written to disk
+}
+
+// Value at the given percentile of an ascending list of numbers
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+// p50, p95 and p99 of a list of latency samples in any order
+export function latencyPercentiles(samples: number[]): LatencyPercentiles {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    p99: percentile(sorted, 0.99),
+  };
+}
@@ -0,0 +1,399 @@
+import { CheckResourcesResponse as CheckResourcesResponsePB } from "@cerbos/embedded/lib/protobuf/cerbos/response/v1/response";
+import { checkResourcesResponseFromProtobuf } from "@cerbos/core/src/convert/fromProtobuf";
+import { CheckResourcesRequest, CheckResourcesResponse } from "@cerbos/core";
+import uuid from "react-native-uuid";
+import {
+  MergedRequestPart,
+  mergeRequests,
+  splitResponse,
+} from "./RequestMerging";
+import {
+  CerbosPDPError,
+  PDPAbortError,
+  PDPEvaluationError,
+  PDPTimeoutError,
+  ResponseDecodeError,
+} from "./CerbosErrors";
+import { latencyPercentiles, LatencyPercentiles } from "./Metrics";
+import { createLogger, Logger } from "./Logger";
+
+// Order in which queued requests are sent to the WebView
+export type RequestPriority = "high" | "normal" | "low";
+
+const priorityRank: Record<RequestPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+// Number of recent round-trip latencies kept for computing percentiles
+const LATENCY_SAMPLE_SIZE = 1000;
+
+// Structure to hold pending checkResources requests along with their promise handlers
+export interface PendingRequest {
+  request: CheckResourcesRequest; // The original request data
+  resolve: (value: CheckResourcesResponse) => void; // Promise resolve function
+  reject: (reason: Error) => void; // Promise reject function
+  createdAt: number; // Timestamp when the request was created (for debugging/timeouts)
+  timeoutId: ReturnType<typeof setTimeout> | undefined; // Timer that rejects the request if no response arrives
+  priority: RequestPriority; // Requests with a higher priority are sent first
+  signal?: AbortSignal; // Signal that cancels the request
+  onAbort?: () => void; // Listener registered on the signal
+}
+
+// Per-request settings for a queued request
+export interface EnqueueOptions {
+  timeoutMs?: number; // Max time to wait for a response (default: until the signal aborts)
+  signal?: AbortSignal; // Cancels the request; aborting it with a PDPTimeoutError counts as a timeout
+  priority?: RequestPriority; // Order in which queued requests are sent (default: "normal")
+}
+
+// Settings controlling how queued requests are batched and delivered
+export interface PDPRequestQueueOptions {
+  batchInterval: number; // Time to wait before sending a batch of requests
+  maxBatchSize: number; // Max number of requests per batch
+  send: (request: CheckResourcesRequest) => void; // Delivers a single request to the WebView
+  logger?: Logger; // Destination for the queue's logs (default: console logger)
+}
+
+// Internal statistics for monitoring
+export interface PDPRequestStats {
+  totalRequests: number;
+  successfulRequests: number;
+  failedRequests: number;
+  timedOutRequests: number;
+  abortedRequests: number;
+  batchesSent: number;
+  cacheHits: number;
+  cacheMisses: number;
+  coalescedRequests: number;
+}
+
+// Live view of the queue, on top of its counters
+export interface PDPQueueMetrics extends PDPRequestStats {
+  queueDepth: number; // Requests waiting for a response
+  batchSizes: Record<number, number>; // Number of batches sent, keyed by the number of requests they contained
+  latencyMs: LatencyPercentiles; // Round-trip latency of recent requests
+}
+
+// Mutable queue of checkResources requests waiting for a response from the WebView.
+// It lives outside React state so that queuing, batching and resolving requests
+// never re-renders the provider.
+export class PDPRequestQueue {
+  public readonly stats: PDPRequestStats = {
+    totalRequests: 0,
+    successfulRequests: 0,
+    failedRequests: 0,
+    timedOutRequests: 0,
+    abortedRequests: 0,
+    batchesSent: 0,
+    cacheHits: 0,
+    cacheMisses: 0,
+    coalescedRequests: 0,
+  };
+
+  // Pending requests keyed by request ID, in the order they were queued
+  private readonly pending = new Map<string, PendingRequest>();
+  // IDs of pending requests that have already been sent to the WebView
+  private readonly dispatched = new Set<string>();
+  // Original requests making up each merged request, keyed by merged request ID
+  private readonly merged = new Map<string, MergedRequestPart[]>();
+  private batchTimer: ReturnType<typeof setTimeout> | null = null;
+  // Number of batches sent, keyed by their size
+  private readonly batchSizes = new Map<number, number>();
+  // Most recent round-trip latencies, oldest first
+  private readonly latencySamples: number[] = [];
+
+  private log: Logger;
+
+  public constructor(private options: PDPRequestQueueOptions) {
+    this.log = queueLogger(options.logger);
+  }
+
+  // Number of requests waiting for a response
+  public get size(): number {
+    return this.pending.size;
+  }
+
+  // Snapshot of the counters, queue depth, batch sizes and latency percentiles
+  public metrics(): PDPQueueMetrics {
+    return {
+      ...this.stats,
+      queueDepth: this.pending.size,
+      batchSizes: Object.fromEntries(this.batchSizes),
+      latencyMs: latencyPercentiles(this.latencySamples),
+    };
+  }
+
+  // Update the batching settings or delivery function without dropping pending requests
+  public configure(options: Partial<PDPRequestQueueOptions>): void {
+    this.options = { ...this.options, ...options };
+    if (options.logger) {
+      this.log = queueLogger(options.logger);
+    }
+  }
+
+  // Queue a request and return a promise for its response.
+  // An aborted request is removed from the queue, or its response ignored if it was already sent.
+  public enqueue(
+    request: CheckResourcesRequest,
+    { timeoutMs, signal, priority = "normal" }: EnqueueOptions
+  ): Promise<CheckResourcesResponse> {
+    const requestId = request.requestId as string;
+
+    return new Promise<CheckResourcesResponse>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new PDPAbortError({ requestId }));
+        return;
+      }
+
+      const timeoutId =
+        timeoutMs === undefined
+          ? undefined
+          : setTimeout(() => {
+              this.log.warn("Request timed out", { requestId, timeoutMs });
+              this.settle(requestId, "timeout")?.reject(
+                new PDPTimeoutError(timeoutMs, { requestId })
+              );
+            }, timeoutMs);
+
+      const onAbort = () => {
+        // A caller that timed out aborts with its timeout error as the reason
+        if (signal?.reason instanceof PDPTimeoutError) {
+          this.log.warn("Request timed out", {
+            requestId,
+            timeoutMs: signal.reason.timeoutMs,
+          });
+          this.settle(requestId, "timeout")?.reject(signal.reason);
+          return;
+        }
+        this.log.debug("Request aborted", { requestId });
+        this.settle(requestId, "aborted")?.reject(
+          new PDPAbortError({ requestId })
+        );
+      };
+      signal?.addEventListener("abort", onAbort);
+
+      this.pending.set(requestId, {
+        request,
+        resolve,
+        reject,
+        createdAt: Date.now(),
+        timeoutId,
+        priority,
+        signal,
+        onAbort,
+      });
+      this.log.debug("Added request to queue", {
+        requestId,
+        queueSize: this.pending.size,
+      });
+      this.scheduleBatch();
+    });
+  }
+
+  // Route a response from the WebView to the request(s) it answers
+  public handleResponse(batchResponsePB: CheckResourcesResponsePB): void {
+    // Split the response to a merged request back into one response per caller
+    const mergedParts = this.merged.get(batchResponsePB.requestId);
+    const responses = mergedParts
+      ? splitResponse(batchResponsePB, mergedParts)
+      : [batchResponsePB];
+    if (mergedParts) {
+      this.log.debug("Splitting merged response", {
+        requestId: batchResponsePB.requestId,
+        responses: mergedParts.length,
+      });
+      this.merged.delete(batchResponsePB.requestId);
+    }
+
+    responses.forEach((responsePB) => {
+      const requestId = responsePB.requestId;
+      const pendingRequest = this.pending.get(requestId);
+
+      if (!pendingRequest) {
+        // This might happen if the request timed out just before the response arrived
+        this.log.warn(
+          "Received response for unknown or already processed request. Might have timed out.",
+          { requestId }
+        );
+        return;
+      }
+
+      this.log.debug("Processing response", {
+        requestId,
+        totalMs: Date.now() - pendingRequest.createdAt,
+      });
+
+      try {
+        // Convert the Protobuf response to the standard JS type
+        const response = checkResourcesResponseFromProtobuf(responsePB);
+        this.settle(requestId, "success");
+        pendingRequest.resolve(response);
+      } catch (error) {
+        this.log.error("Error converting Protobuf response", {
+          requestId,
+          error,
+        });
+        this.settle(requestId, "failure");
+        pendingRequest.reject(
+          new ResponseDecodeError({ requestId, cause: error })
+        );
+      }
+    });
+  }
+
+  // Reject the request(s) that an error reported by the WebView belongs to.
+  // Errors that are not already PDP errors are wrapped in a PDPEvaluationError.
+  public handleError(batchRequestId: string, error: unknown): void {
+    // An error in a merged request fails every request it was made up of
+    const mergedParts = this.merged.get(batchRequestId);
+    const requestIds = mergedParts
+      ? mergedParts.map((part) => part.requestId)
+      : [batchRequestId];
+    this.merged.delete(batchRequestId);
+
+    requestIds.forEach((requestId) => {
+      const pendingRequest = this.settle(requestId, "failure");
+      if (pendingRequest) {
+        pendingRequest.reject(
+          error instanceof CerbosPDPError
+            ? error
+            : new PDPEvaluationError({ requestId, cause: error })
+        );
+      } else {
+        // This might happen if the request timed out just before the error was reported
+        this.log.warn(
+          "Received error for unknown or already processed request. Might have timed out.",
+          { requestId, error }
+        );
+      }
+    });
+  }
+
+  // Reject every pending request and stop batching, e.g. when the provider unmounts
+  public clear(reason: Error): void {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+    Array.from(this.pending.keys()).forEach((requestId) =>
+      this.settle(requestId, "failure")?.reject(reason)
+    );
+    this.merged.clear();
+  }
+
+  private scheduleBatch(): void {
+    if (this.batchTimer) {
+      return; // A batch is already scheduled and will pick up this request
+    }
+    this.log.debug("Scheduling batch processing", {
+      batchInterval: this.options.batchInterval,
+    });
+    this.batchTimer = setTimeout(() => {
+      this.batchTimer = null;
+      this.processBatch();
+    }, this.options.batchInterval);
+  }
+
+  // Send the next batch of requests to the WebView
+  private processBatch(): void {
+    const { maxBatchSize, send } = this.options;
+
+    // Only requests that have not been sent to the WebView yet are batched,
+    // highest priority first and in queue order within the same priority
+    const undispatchedIds = Array.from(this.pending.entries())
+      .filter(([id]) => !this.dispatched.has(id))
+      .sort(
+        ([, a], [, b]) => priorityRank[a.priority] - priorityRank[b.priority]
+      )
+      .map(([id]) => id);
+    if (undispatchedIds.length === 0) {
+      return;
+    }
+
+    // Select requests for the current batch, up to maxBatchSize
+    const batchIds = undispatchedIds.slice(0, maxBatchSize);
+    batchIds.forEach((id) => this.dispatched.add(id));
+
+    // Merge requests sharing a principal into a single ePDP call
+    const batch = mergeRequests(
+      batchIds.map((id) => this.pending.get(id)!.request),
+      () => uuid.v4() as string
+    );
+
+    this.stats.batchesSent++;
+    this.batchSizes.set(
+      batchIds.length,
+      (this.batchSizes.get(batchIds.length) ?? 0) + 1
+    );
+    this.log.info("Sending batch to WebView", {
+      batch: this.stats.batchesSent,
+      requests: batchIds.length,
+      calls: batch.length,
+    });
+
+    batch.forEach(({ request, parts }) => {
+      const batchRequestId = request.requestId as string;
+      if (parts.length > 1) {
+        this.merged.set(batchRequestId, parts);
+      }
+      try {
+        send(request);
+      } catch (error) {
+        this.handleError(batchRequestId, error);
+      }
+    });
+
+    // If there are more requests remaining than the batch size, schedule the next batch
+    if (undispatchedIds.length > maxBatchSize) {
+      this.log.debug("More requests pending, scheduling next batch.");
+      this.scheduleBatch();
+    }
+  }
+
+  // Remove a request from the queue, update statistics and return it if it was still pending
+  private settle(
+    requestId: string,
+    status: "success" | "failure" | "timeout" | "aborted"
+  ): PendingRequest | undefined {
+    const pendingRequest = this.pending.get(requestId);
+    if (!pendingRequest) {
+      return undefined;
+    }
+    this.log.debug("Cleaning up request", { requestId, status });
+
+    // Update internal statistics based on the outcome
+    if (status === "success") this.stats.successfulRequests++;
+    if (status === "failure") this.stats.failedRequests++;
+    if (status === "timeout") this.stats.timedOutRequests++;
+    if (status === "aborted") this.stats.abortedRequests++;
+
+    // Requests answered by the WebView count towards the round-trip latency
+    if (
+      (status === "success" || status === "failure") &&
+      this.dispatched.has(requestId)
+    ) {
+      this.latencySamples.push(Date.now() - pendingRequest.createdAt);
+      if (this.latencySamples.length > LATENCY_SAMPLE_SIZE) {
+        this.latencySamples.shift();
+      }
+    }
+
+    clearTimeout(pendingRequest.timeoutId);
+    if (pendingRequest.onAbort) {
+      pendingRequest.signal?.removeEventListener(
+        "abort",
+        pendingRequest.onAbort
+      );
+    }
+    this.pending.delete(requestId);
+    this.dispatched.delete(requestId);
+    return pendingRequest;
+  }
+}
+
+// Logger for the queue, tagged so its events can be told apart from the provider's
+function queueLogger(logger: Logger | undefined): Logger {
+  return logger?.withTag("PDPRequestQueue") ?? createLogger("PDPRequestQueue");
+}
@@ -1,19 +1,13 @@
 import SelectDropdown from "react-native-select-dropdown";
 import { ThemedView } from "./ThemedView";
 import { principals } from "@/constants/data";
-import { Principal } from "@cerbos/core/src/types/external";
 import { ThemedText } from "./ThemedText";
 import { StyleSheet } from "react-native";
+import { useCerbos } from "./CerbosContext";
 
-interface PrincipalPickerProps {
-  principal: Principal;
-  setPrincipal: (principal: Principal) => void;
-}
-
-export function PrincipalPicker({
-  principal,
-  setPrincipal,
-}: PrincipalPickerProps) {
+// Selects the current principal of the CerbosProvider
+export function PrincipalPicker() {
+  const { principal = principals[0], setPrincipal } = useCerbos();
   return (
     <ThemedView style={styles.dropdownColumn}>
       <ThemedText>Principal</ThemedText>
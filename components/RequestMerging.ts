@@ -0,0 +1,65 @@
+import { CheckResourcesRequest } from "@cerbos/core";
+import { CheckResourcesResponse as CheckResourcesResponsePB } from "@cerbos/embedded/lib/protobuf/cerbos/response/v1/response";
+import { stableStringify } from "./DecisionCache";
+
+// Portion of a merged request that belongs to one original caller
+export interface MergedRequestPart {
+  requestId: string; // ID of the original request
+  resourceCount: number; // Number of resource entries the original request contributed
+}
+
+// A request sent to the ePDP on behalf of one or more original requests
+export interface MergedRequest {
+  request: CheckResourcesRequest; // The request to evaluate
+  parts: MergedRequestPart[]; // Original requests in the order their resources were appended
+}
+
+// Merge requests that share a principal, auxData and includeMetadata flag into a
+// single request with all of their resource entries. Requests that cannot be
+// merged with any other are returned unchanged with a single part.
+export function mergeRequests(
+  requests: CheckResourcesRequest[],
+  generateId: () => string
+): MergedRequest[] {
+  const groups = new Map<string, CheckResourcesRequest[]>();
+  requests.forEach((request) => {
+    const key = stableStringify({
+      principal: request.principal,
+      auxData: request.auxData,
+      includeMetadata: request.includeMetadata,
+    });
+    groups.set(key, [...(groups.get(key) ?? []), request]);
+  });
+
+  return Array.from(groups.values()).map((group) => {
+    const parts = group.map((request) => ({
+      requestId: request.requestId as string,
+      resourceCount: request.resources.length,
+    }));
+    if (group.length === 1) {
+      return { request: group[0], parts };
+    }
+    return {
+      request: {
+        ...group[0],
+        requestId: generateId(),
+        resources: group.flatMap((request) => request.resources),
+      },
+      parts,
+    };
+  });
+}
+
+// Split the response to a merged request back into one response per original request.
+// The ePDP returns results in the same order as the resource entries of the request.
+export function splitResponse(
+  response: CheckResourcesResponsePB,
+  parts: MergedRequestPart[]
+): CheckResourcesResponsePB[] {
+  let offset = 0;
+  return parts.map(({ requestId, resourceCount }) => {
+    const results = response.results.slice(offset, offset + resourceCount);
+    offset += resourceCount;
+    return { ...response, requestId, results };
+  });
+}
@@ -0,0 +1,73 @@
+import {
+  CheckResourcesResponse,
+  CheckResourcesResult,
+  ResourceSearch,
+  ValidationError,
+  Value,
+} from "@cerbos/core";
+
+// A validation error along with the resource whose check reported it
+export interface ResourceValidationError extends ValidationError {
+  resource: ResourceSearch; // Resource whose principal or attributes failed schema validation
+}
+
+// Output emitted by a policy for a resource, identified by the rule or policy that emitted it
+export function outputOf(
+  response: CheckResourcesResponse,
+  resource: ResourceSearch,
+  source: string
+): Value | undefined {
+  return response.findResult(resource)?.output(source);
+}
+
+// Every output emitted for a resource, keyed by the rule or policy that emitted it
+export function outputsOf(
+  response: CheckResourcesResponse,
+  resource: ResourceSearch
+): Record<string, Value | undefined> {
+  const result: CheckResourcesResult | undefined =
+    response.findResult(resource);
+  return Object.fromEntries(
+    (result?.outputs ?? []).map(({ source, value }) => [source, value])
+  );
+}
+
+// Schema validation errors reported for every resource in the response
+export function validationErrorsOf(
+  response: CheckResourcesResponse
+): ResourceValidationError[] {
+  return response.results.flatMap((result: CheckResourcesResult) =>
+    result.validationErrors.map((error) => ({
+      ...error,
+      resource: { kind: result.resource.kind, id: result.resource.id },
+    }))
+  );
+}
+
+// Policy that decided each action on a resource. Only available if the request set includeMetadata.
+export function matchedPoliciesOf(
+  response: CheckResourcesResponse,
+  resource: ResourceSearch
+): Record<string, string> | undefined {
+  const result: CheckResourcesResult | undefined =
+    response.findResult(resource);
+  if (!result?.metadata) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(result.metadata.actions).map(([action, effect]) => [
+      action,
+      effect?.matchedPolicy ?? "",
+    ])
+  );
+}
+
+// Derived roles that applied to the principal for a resource. Only available if the request set includeMetadata.
+export function effectiveDerivedRolesOf(
+  response: CheckResourcesResponse,
+  resource: ResourceSearch
+): string[] | undefined {
+  const result: CheckResourcesResult | undefined =
+    response.findResult(resource);
+  return result?.metadata?.effectiveDerivedRoles;
+}
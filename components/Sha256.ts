@@ -0,0 +1,23 @@
+import { sha256 as nobleSha256 } from "@noble/hashes/sha2";
+import { bytesToHex } from "@noble/hashes/utils";
+
+// SHA-256 digest of bytes, or of a string encoded as UTF-8. Computed synchronously by the
+// audited @noble/hashes, since neither Hermes nor JSC provide WebCrypto.
+export function sha256(input: string | Uint8Array): Uint8Array {
+  return nobleSha256(input);
+}
+
+// SHA-256 digest as a lowercase hex string
+export function sha256Hex(input: string | Uint8Array): string {
+  return toHex(sha256(input));
+}
+
+// Incremental SHA-256, for hashing a file chunk by chunk without holding all of it in memory
+export function createSha256(): ReturnType<typeof nobleSha256.create> {
+  return nobleSha256.create();
+}
+
+// Bytes as a lowercase hex string
+export function toHex(bytes: Uint8Array): string {
+  return bytesToHex(bytes);
+}
@@ -0,0 +1,153 @@
+import { BundleStore } from '../BundleStore';
+
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  makeDirectoryAsync: async () => {},
+  readAsStringAsync: async (uri: string) => {
+    const contents = mockFiles.get(uri);
+    if (contents === undefined) {
+      throw new Error(`No such file: ${uri}`);
+    }
+    return contents;
+  },
+  writeAsStringAsync: async (uri: string, contents: string) => {
+    mockFiles.set(uri, contents);
+  },
+  deleteAsync: async (uri: string) => {
+    mockFiles.delete(uri);
+  },
+  moveAsync: async ({ from, to }: { from: string; to: string }) => {
+    mockFiles.set(to, mockFiles.get(from)!);
+    mockFiles.delete(from);
+  },
+}));
+
+const url = 'https://example.com/bundle';
+let now = 0;
+
+beforeEach(() => {
+  mockFiles.clear();
+  now = 0;
+  jest.spyOn(Date, 'now').mockImplementation(() => ++now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const download = (store: BundleStore, md5: string) => {
+  mockFiles.set(store.downloadUri, md5);
+  return store.promote(store.downloadUri, {
+    sizeBytes: md5.length,
+    etag: undefined,
+    lastModified: undefined,
+    md5,
+    digest: undefined,
+  });
+};
+
+it(`refuses a bad bundle served repeatedly once it failed to load twice`, async () => {
+  const store = new BundleStore(url, 2);
+  const good = await download(store, 'good');
+  const bad = await download(store, 'bad');
+
+  expect(await store.markFailed(bad!.id, 'error')).toEqual(good);
+  const retried = await download(store, 'bad');
+  expect(retried).toBeDefined();
+  expect(await store.markFailed(retried!.id, 'error')).toEqual(good);
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    expect(await download(store, 'bad')).toBeUndefined();
+    expect(mockFiles.has(store.downloadUri)).toBe(false);
+  }
+  expect(await store.active()).toEqual(good);
+  expect(mockFiles.has(good!.uri)).toBe(true);
+});
+
+it(`never refuses the only bundle or a bundle that timed out`, async () => {
+  const store = new BundleStore(url, 2);
+  let only = await download(store, 'only');
+  for (let attempt = 0; attempt < 3; attempt++) {
+    expect(await store.markFailed(only!.id, 'error')).toBeUndefined();
+    only = await download(store, 'only');
+    expect(only).toBeDefined();
+  }
+
+  let slow = await download(store, 'slow');
+  for (let attempt = 0; attempt < 3; attempt++) {
+    expect(await store.markFailed(slow!.id, 'timeout')).toEqual(only);
+    slow = await download(store, 'slow');
+    expect(slow).toBeDefined();
+  }
+});
+
+it(`forgets failures once the bundle loads or they expire`, async () => {
+  const store = new BundleStore(url, 3);
+  const good = await download(store, 'good');
+  const failTwice = async () => {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const bad = await download(store, 'bad');
+      await store.markFailed(bad!.id, 'error');
+    }
+    expect(await download(store, 'bad')).toBeUndefined();
+  };
+
+  await failTwice();
+  const [bad] = await store.list();
+  await store.markLoaded(bad.id, 'abc');
+  expect(await download(store, 'bad')).toBeDefined();
+
+  await store.rollback(good!.id);
+  await failTwice();
+  now += 24 * 60 * 60 * 1000;
+  expect(await download(store, 'bad')).toBeDefined();
+});
+
+it(`keeps the active and the newest good bundle when pruning`, async () => {
+  const store = new BundleStore(url, 2);
+  const good = await download(store, 'good');
+  const first = await download(store, 'first');
+  await store.markFailed(first!.id, 'error');
+  const second = await download(store, 'second');
+
+  expect((await store.list()).map(({ id }) => id)).toEqual([
+    second!.id,
+    good!.id,
+  ]);
+  expect(mockFiles.has(good!.uri)).toBe(true);
+  expect(mockFiles.has(first!.uri)).toBe(false);
+});
+
+it(`rolls back past bundles that failed`, async () => {
+  const store = new BundleStore(url, 3);
+  const good = await download(store, 'good');
+  const bad = await download(store, 'bad');
+  await download(store, 'new');
+  await store.markFailed(bad!.id, 'error');
+
+  expect(await store.rollback()).toEqual(good);
+  expect(await store.pinned()).toBe(true);
+});
+
+it(`removes a corrupted bundle so the latest one is downloaded again`, async () => {
+  const store = new BundleStore(url, 3);
+  const good = await download(store, 'good');
+  const corrupted = await download(store, 'corrupted');
+  await store.remove(corrupted!.id);
+
+  expect(await store.active()).toEqual(good);
+  expect(mockFiles.has(corrupted!.uri)).toBe(false);
+  expect(await download(store, 'corrupted')).toBeDefined();
+});
+
+it(`recovers the manifest if an update was interrupted`, async () => {
+  const store = new BundleStore(url);
+  const bundle = await download(store, 'good');
+  const manifestUri = bundle!.uri.replace(bundle!.id, 'manifest.json');
+  mockFiles.set(`${manifestUri}.tmp`, mockFiles.get(manifestUri)!);
+  mockFiles.delete(manifestUri);
+
+  expect(await new BundleStore(url).active()).toEqual(bundle);
+});
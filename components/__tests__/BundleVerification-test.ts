@@ -0,0 +1,102 @@
+import { createHash, generateKeyPairSync, sign } from 'crypto';
+import {
+  parseDigest,
+  verifyBundle,
+  verifyCachedBundle,
+} from '../BundleVerification';
+import { BundleVerificationError } from '../CerbosErrors';
+
+const url = 'https://example.com/bundle';
+const bundle = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0]);
+const digest = createHash('sha256').update(bundle).digest();
+const truncatedDigest = createHash('sha256')
+  .update(bundle.subarray(1))
+  .digest();
+
+const reasonOf = (verify: () => unknown) => {
+  try {
+    verify();
+  } catch (error) {
+    return error instanceof BundleVerificationError ? error.reason : error;
+  }
+};
+
+it(`checks pinned and server-provided digests`, () => {
+  const hex = digest.toString('hex');
+
+  expect(
+    verifyBundle(
+      digest,
+      url,
+      { sha256: hex.toUpperCase() },
+      { digest: undefined, signature: undefined }
+    )
+  ).toBe(hex);
+  expect(parseDigest(`sha-256=:${digest.toString('base64')}:`)).toBe(hex);
+  expect(
+    reasonOf(() =>
+      verifyBundle(
+        truncatedDigest,
+        url,
+        { digestHeader: 'X-Digest' },
+        { digest: hex, signature: undefined }
+      )
+    )
+  ).toBe('digest-mismatch');
+  expect(
+    reasonOf(() =>
+      verifyBundle(
+        digest,
+        url,
+        { digestHeader: 'X-Digest' },
+        { digest: undefined, signature: undefined }
+      )
+    )
+  ).toBe('missing-digest');
+  expect(reasonOf(() => verifyCachedBundle(hex, url, {}, null))).toBe(
+    'missing-digest'
+  );
+  expect(
+    reasonOf(() =>
+      verifyCachedBundle(truncatedDigest.toString('hex'), url, {}, hex)
+    )
+  ).toBe('digest-mismatch');
+});
+
+it(`checks the Ed25519 signature of the digest`, () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const pem = publicKey.export({ format: 'pem', type: 'spki' }).toString();
+  const signature = sign(null, digest, privateKey).toString('base64');
+  const forged = sign(null, Buffer.from('other'), privateKey).toString(
+    'base64'
+  );
+
+  expect(() =>
+    verifyBundle(
+      digest,
+      url,
+      { publicKey: pem },
+      { digest: undefined, signature }
+    )
+  ).not.toThrow();
+  expect(
+    reasonOf(() =>
+      verifyBundle(
+        digest,
+        url,
+        { publicKey: pem },
+        { digest: undefined, signature: forged }
+      )
+    )
+  ).toBe('invalid-signature');
+  expect(
+    reasonOf(() =>
+      verifyBundle(
+        digest,
+        url,
+        { publicKey: pem },
+        { digest: undefined, signature: undefined }
+      )
+    )
+  ).toBe('missing-signature');
+});
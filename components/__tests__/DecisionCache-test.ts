@@ -0,0 +1,45 @@
+import { DecisionCache, stableStringify } from '../DecisionCache';
+
+it(`produces the same key regardless of object key order`, () => {
+  expect(stableStringify({ b: 1, a: { d: [1, 2], c: 'x' } })).toEqual(
+    stableStringify({ a: { c: 'x', d: [1, 2] }, b: 1 })
+  );
+});
+
+it(`expires entries after the TTL`, () => {
+  jest.useFakeTimers();
+  const cache = new DecisionCache<string>({ ttlMs: 1000 });
+  cache.setCommit('abc');
+  cache.set('key', 'value', 'abc');
+
+  expect(cache.get('key')).toEqual('value');
+  jest.advanceTimersByTime(1001);
+  expect(cache.get('key')).toBeUndefined();
+  jest.useRealTimers();
+});
+
+it(`evicts the least recently used entry beyond the size limit`, () => {
+  const cache = new DecisionCache<number>({ maxEntries: 2 });
+  cache.set('a', 1, undefined);
+  cache.set('b', 2, undefined);
+  cache.get('a');
+  cache.set('c', 3, undefined);
+
+  expect(cache.get('a')).toEqual(1);
+  expect(cache.get('b')).toBeUndefined();
+  expect(cache.get('c')).toEqual(3);
+});
+
+it(`flushes entries when the bundle commit changes`, () => {
+  const cache = new DecisionCache<string>({});
+  cache.setCommit('abc');
+  cache.set('key', 'value', 'abc');
+
+  expect(cache.setCommit('abc')).toBe(false);
+  expect(cache.setCommit('def')).toBe(true);
+  expect(cache.size).toEqual(0);
+
+  // A decision evaluated against the old bundle is discarded
+  cache.set('key', 'value', 'abc');
+  expect(cache.get('key')).toBeUndefined();
+});
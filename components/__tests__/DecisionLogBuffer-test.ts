@@ -0,0 +1,66 @@
+import { DecisionLogEntry, Effect } from '@cerbos/core';
+import { DecisionLogBuffer, matchesQuery, toJSONL } from '../DecisionLogBuffer';
+
+const entry = (callId: string, principalId: string, effect: Effect) =>
+  ({
+    callId,
+    method: {
+      name: 'CheckResources',
+      inputs: [
+        {
+          principal: { id: principalId },
+          resource: { kind: 'document', id: '1' },
+          actions: ['view'],
+        },
+      ],
+      outputs: [{ actions: { view: { effect } } }],
+    },
+  }) as unknown as DecisionLogEntry;
+
+it(`keeps only the most recent decisions and notifies subscribers`, () => {
+  const buffer = new DecisionLogBuffer(2);
+  const listener = jest.fn();
+  buffer.subscribe(listener);
+
+  ['a', 'b', 'c'].forEach((callId) =>
+    buffer.push({ entry: entry(callId, 'alice', Effect.ALLOW), commit: 'abc' })
+  );
+
+  expect(buffer.snapshot().map(({ entry }) => entry.callId)).toEqual([
+    'b',
+    'c',
+  ]);
+  expect(listener).toHaveBeenCalledTimes(3);
+  expect(
+    toJSONL(buffer.snapshot())
+      .split('\n')
+      .map((line) => JSON.parse(line).callId)
+  ).toEqual(['b', 'c']);
+});
+
+it(`keeps nothing when its capacity is 0`, () => {
+  const buffer = new DecisionLogBuffer(0);
+  const listener = jest.fn();
+  buffer.subscribe(listener);
+
+  buffer.push({ entry: entry('a', 'alice', Effect.ALLOW), commit: 'abc' });
+
+  expect(buffer.snapshot()).toEqual([]);
+  expect(listener).not.toHaveBeenCalled();
+});
+
+it(`matches decisions by principal, kind, action and effect`, () => {
+  const denied = entry('a', 'alice', Effect.DENY);
+
+  expect(matchesQuery(denied, {})).toBe(true);
+  expect(
+    matchesQuery(denied, {
+      principal: 'ALI',
+      kind: 'doc',
+      action: 'view',
+      effect: 'deny',
+    })
+  ).toBe(true);
+  expect(matchesQuery(denied, { effect: 'allow' })).toBe(false);
+  expect(matchesQuery(denied, { principal: 'bob' })).toBe(false);
+});
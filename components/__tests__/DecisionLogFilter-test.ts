@@ -0,0 +1,120 @@
+import { DecisionLogEntry, Effect } from '@cerbos/core';
+import { createDecisionLogFilter } from '../DecisionLogFilter';
+import { sha256Hex } from '../Sha256';
+
+const check = (
+  resources: { kind: string; actions: Record<string, Effect> }[]
+): DecisionLogEntry =>
+  ({
+    callId: 'call',
+    method: {
+      name: 'CheckResources',
+      inputs: resources.map(({ kind, actions }) => ({
+        requestId: 'req',
+        principal: {
+          id: 'alice',
+          roles: ['user'],
+          attr: { email: 'alice@example.com', department: 'eng' },
+        },
+        resource: {
+          kind,
+          id: '1',
+          attr: { owner: { email: 'bob@example.com' } },
+        },
+        actions: Object.keys(actions),
+        auxData: undefined,
+      })),
+      outputs: resources.map(({ actions }) => ({
+        requestId: 'req',
+        resourceId: '1',
+        actions: Object.fromEntries(
+          Object.entries(actions).map(([action, effect]) => [
+            action,
+            { effect, policy: 'p', scope: '' },
+          ])
+        ),
+        effectiveDerivedRoles: [],
+        validationErrors: [],
+        outputs: [],
+      })),
+      error: undefined,
+    },
+  }) as unknown as DecisionLogEntry;
+
+// The CheckResources call recorded in an entry the filter kept
+const checkCallOf = (entry: DecisionLogEntry | undefined) => {
+  const method = entry?.method;
+  if (method?.name !== 'CheckResources') {
+    throw new Error('Expected a CheckResources decision log entry');
+  }
+  return method;
+};
+
+it(`drops and hashes attribute paths without modifying the entry`, () => {
+  const entry = check([{ kind: 'document', actions: { view: Effect.ALLOW } }]);
+  const filter = createDecisionLogFilter({
+    dropPaths: ['principal.attr.email'],
+    hashPaths: ['resource.attr.owner.email'],
+  });
+
+  const [input] = checkCallOf(filter(entry)).inputs;
+
+  expect(input.principal.attr).toEqual({ department: 'eng' });
+  expect(input.resource.attr).toEqual({
+    owner: { email: `sha256:${sha256Hex('bob@example.com')}` },
+  });
+  expect(checkCallOf(entry).inputs[0].principal.attr.email).toBe(
+    'alice@example.com'
+  );
+});
+
+it(`excludes kinds and actions`, () => {
+  const filter = createDecisionLogFilter({
+    excludeKinds: ['audit'],
+    excludeActions: ['ping'],
+  });
+
+  expect(
+    filter(check([{ kind: 'audit', actions: { view: Effect.ALLOW } }]))
+  ).toBeUndefined();
+  expect(
+    filter(check([{ kind: 'document', actions: { ping: Effect.ALLOW } }]))
+  ).toBeUndefined();
+
+  const kept = checkCallOf(
+    filter(
+      check([
+        { kind: 'audit', actions: { view: Effect.ALLOW } },
+        {
+          kind: 'document',
+          actions: { ping: Effect.ALLOW, edit: Effect.DENY },
+        },
+      ])
+    )
+  );
+  expect(
+    kept.inputs.map((input) => [input.resource.kind, input.actions])
+  ).toEqual([['document', ['edit']]]);
+  expect(Object.keys(kept.outputs[0].actions)).toEqual(['edit']);
+});
+
+it(`samples entries by effect`, () => {
+  const filter = createDecisionLogFilter(
+    { sampleRates: { allow: 0.1 } },
+    () => 0.5
+  );
+
+  expect(
+    filter(check([{ kind: 'document', actions: { view: Effect.ALLOW } }]))
+  ).toBeUndefined();
+  expect(
+    filter(
+      check([
+        {
+          kind: 'document',
+          actions: { view: Effect.ALLOW, edit: Effect.DENY },
+        },
+      ])
+    )
+  ).toBeDefined();
+});
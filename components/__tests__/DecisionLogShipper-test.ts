@@ -0,0 +1,132 @@
+import { DecisionLogEntry } from '@cerbos/core';
+import { DecisionLogJournal, DecisionLogShipper } from '../DecisionLogShipper';
+import { createLogger } from '../Logger';
+
+const logger = createLogger('DecisionLogShipper', { level: 'silent' });
+
+const entry = (callId: string) => ({ callId }) as unknown as DecisionLogEntry;
+
+const memoryJournal = (contents: string | null = null) => {
+  const journal: DecisionLogJournal & {
+    contents: string | null;
+    writes: number;
+  } = {
+    contents,
+    writes: 0,
+    read: async () => journal.contents,
+    write: async (value) => {
+      journal.contents = value;
+      journal.writes++;
+    },
+  };
+  return journal;
+};
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+const mockFetch = (status: number) => {
+  const fetchMock = jest.fn(async (_url: string, _init: RequestInit) => ({
+    ok: status >= 200 && status < 300,
+    status,
+  }));
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+};
+
+const originalFetch = global.fetch;
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+it(`uploads journaled entries in batches once the device is back online`, async () => {
+  const fetchMock = mockFetch(200);
+  const journal = memoryJournal(JSON.stringify([entry('saved')]));
+  const shipper = new DecisionLogShipper(
+    { endpoint: 'https://audit.example.com/logs', batchSize: 2 },
+    journal,
+    logger
+  );
+
+  shipper.setOnline(false);
+  shipper.append(entry('a'));
+  shipper.append(entry('b'));
+  await shipper.start();
+  shipper.stop();
+  await flushPromises();
+
+  expect(fetchMock).not.toHaveBeenCalled();
+  expect(JSON.parse(journal.contents!)).toHaveLength(3);
+
+  shipper.setOnline(true);
+  await flushPromises();
+
+  const batches = fetchMock.mock.calls.map(
+    ([, init]) => JSON.parse(String(init.body)).entries
+  );
+  expect(batches).toEqual([[entry('saved'), entry('a')], [entry('b')]]);
+  expect(shipper.pending).toBe(0);
+  shipper.stop();
+  await flushPromises();
+  expect(JSON.parse(journal.contents!)).toEqual([]);
+});
+
+it(`keeps entries after a failed upload and drops the oldest when full`, async () => {
+  mockFetch(503);
+  const journal = memoryJournal();
+  const shipper = new DecisionLogShipper(
+    { endpoint: 'https://audit.example.com/logs', maxEntries: 2 },
+    journal,
+    logger
+  );
+
+  await shipper.start();
+  shipper.append(entry('a'));
+  shipper.append(entry('b'));
+  shipper.append(entry('c'));
+  await shipper.flush();
+  shipper.stop();
+  await flushPromises();
+
+  expect(shipper.stats).toMatchObject({ dropped: 1, failedUploads: 1 });
+  expect(JSON.parse(journal.contents!)).toEqual([entry('b'), entry('c')]);
+});
+
+it(`rewrites the journal once for a burst of entries`, async () => {
+  jest.useFakeTimers();
+  const settle = async () => {
+    for (let i = 0; i < 10; i++) {
+      await Promise.resolve();
+    }
+  };
+  try {
+    mockFetch(503);
+    const journal = memoryJournal();
+    const shipper = new DecisionLogShipper(
+      {
+        endpoint: 'https://audit.example.com/logs',
+        journalWriteDelayMs: 1000,
+      },
+      journal,
+      logger
+    );
+    shipper.setOnline(false);
+    await shipper.start();
+    jest.advanceTimersByTime(1000);
+    await settle();
+    const writes = journal.writes;
+
+    for (let i = 0; i < 20; i++) {
+      shipper.append(entry(String(i)));
+    }
+    await settle();
+    expect(journal.writes).toBe(writes);
+
+    jest.advanceTimersByTime(1000);
+    await settle();
+    expect(journal.writes).toBe(writes + 1);
+    expect(JSON.parse(journal.contents!)).toHaveLength(20);
+    shipper.stop();
+  } finally {
+    jest.useRealTimers();
+  }
+});
@@ -0,0 +1,74 @@
+import { fallbackResponse, isFallbackResponse } from '../FallbackDecisions';
+
+const alice = { id: 'alice', roles: ['USER'], attr: {} };
+const request = {
+  requestId: '1',
+  principal: alice,
+  resources: [
+    {
+      resource: { kind: 'resource', id: 'a', attr: {} },
+      actions: ['read', 'delete'],
+    },
+    { resource: { kind: 'report', id: 'b', attr: {} }, actions: ['read'] },
+  ],
+};
+
+it(`denies every action in deny-all mode`, () => {
+  const response = fallbackResponse('deny-all', request);
+
+  expect(response.allAllowed({ kind: 'resource', id: 'a' })).toBe(false);
+  expect(
+    response.isAllowed({
+      resource: { kind: 'report', id: 'b' },
+      action: 'read',
+    })
+  ).toBe(false);
+  expect(isFallbackResponse(response)).toBe(true);
+});
+
+it(`allows only the listed kind/action pairs`, () => {
+  const response = fallbackResponse(
+    { allow: [{ kind: 'resource', actions: ['read'] }] },
+    request
+  );
+
+  expect(
+    response.isAllowed({
+      resource: { kind: 'resource', id: 'a' },
+      action: 'read',
+    })
+  ).toBe(true);
+  expect(
+    response.isAllowed({
+      resource: { kind: 'resource', id: 'a' },
+      action: 'delete',
+    })
+  ).toBe(false);
+  expect(
+    response.isAllowed({
+      resource: { kind: 'report', id: 'b' },
+      action: 'read',
+    })
+  ).toBe(false);
+});
+
+it(`asks a custom function for each action`, () => {
+  const response = fallbackResponse(
+    (principal, resource, action) =>
+      resource.kind === 'report' && principal.id === 'alice',
+    request
+  );
+
+  expect(
+    response.isAllowed({
+      resource: { kind: 'resource', id: 'a' },
+      action: 'read',
+    })
+  ).toBe(false);
+  expect(
+    response.isAllowed({
+      resource: { kind: 'report', id: 'b' },
+      action: 'read',
+    })
+  ).toBe(true);
+});
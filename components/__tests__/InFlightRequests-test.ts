@@ -0,0 +1,56 @@
+import { CheckResourcesResponse } from '@cerbos/core';
+import { PDPAbortError, PDPTimeoutError } from '../CerbosErrors';
+import { InFlightRequest, waitForInFlight } from '../InFlightRequests';
+
+const response = {} as CheckResourcesResponse;
+
+const inFlight = () => {
+  let resolve!: (value: CheckResourcesResponse) => void;
+  const entry: InFlightRequest = {
+    requestId: 'shared',
+    promise: new Promise((r) => (resolve = r)),
+    controller: new AbortController(),
+    callers: 0,
+  };
+  return { entry, resolve };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+it(`times out each caller after its own timeout`, async () => {
+  const { entry, resolve } = inFlight();
+  const short = waitForInFlight(entry, undefined, 100);
+  const long = waitForInFlight(entry, undefined, 1000);
+
+  jest.advanceTimersByTime(100);
+  await expect(short).rejects.toEqual(
+    new PDPTimeoutError(100, { requestId: 'shared' })
+  );
+  expect(entry.controller.signal.aborted).toBe(false);
+
+  jest.advanceTimersByTime(400);
+  resolve(response);
+  await expect(long).resolves.toBe(response);
+});
+
+it(`cancels the request once every caller has left`, async () => {
+  const { entry } = inFlight();
+  const caller = new AbortController();
+  const aborted = waitForInFlight(entry, caller.signal, 1000);
+  const timedOut = waitForInFlight(entry, undefined, 100);
+
+  caller.abort();
+  await expect(aborted).rejects.toBeInstanceOf(PDPAbortError);
+  expect(entry.controller.signal.aborted).toBe(false);
+
+  jest.advanceTimersByTime(100);
+  await expect(timedOut).rejects.toBeInstanceOf(PDPTimeoutError);
+  expect(entry.controller.signal.aborted).toBe(true);
+  expect(entry.controller.signal.reason).toBeInstanceOf(PDPTimeoutError);
+});
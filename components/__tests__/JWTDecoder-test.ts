@@ -0,0 +1,61 @@
+import { createJWTDecoder } from '../JWTDecoder';
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+const token = (claims: object) =>
+  `${encode({ alg: 'RS256', kid: 'key' })}.${encode(claims)}.c2ln`;
+const now = () => 1_700_000_000_000;
+
+it(`decodes the claims of a valid token`, async () => {
+  const decode = createJWTDecoder({
+    verify: () => true,
+    issuer: 'https://idp',
+    audience: 'app',
+    now,
+  });
+
+  await expect(
+    decode({
+      token: token({
+        sub: 'alice',
+        name: 'Alïce',
+        iss: 'https://idp',
+        aud: ['app'],
+        exp: 1_700_000_100,
+      }),
+    })
+  ).resolves.toEqual({
+    sub: 'alice',
+    name: 'Alïce',
+    iss: 'https://idp',
+    aud: ['app'],
+    exp: 1_700_000_100,
+  });
+});
+
+it(`rejects expired tokens and tokens for another audience`, async () => {
+  const decode = createJWTDecoder({ verify: false, audience: 'app', now });
+
+  await expect(
+    decode({ token: token({ aud: 'app', exp: 1_699_999_000 }) })
+  ).rejects.toThrow('JWT has expired');
+  await expect(decode({ token: token({ aud: 'other' }) })).rejects.toThrow(
+    'JWT audience does not include app'
+  );
+});
+
+it(`rejects tokens that fail signature verification`, async () => {
+  const verify = jest.fn(() => false);
+  const decode = createJWTDecoder({ verify, now });
+
+  await expect(
+    decode({ token: token({ sub: 'alice' }), keySetId: 'idp' })
+  ).rejects.toThrow('JWT signature verification failed');
+  expect(verify).toHaveBeenCalledWith(
+    expect.objectContaining({
+      header: { alg: 'RS256', kid: 'key' },
+      signature: 'c2ln',
+      keySetId: 'idp',
+    })
+  );
+});
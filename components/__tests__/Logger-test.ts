@@ -0,0 +1,34 @@
+import { createLogger, LogEvent } from '../Logger';
+
+it(`emits structured events at or above the configured level`, () => {
+  const events: LogEvent[] = [];
+  const log = createLogger('CerbosProvider', {
+    level: 'warn',
+    sink: (event) => events.push(event),
+  });
+
+  log.debug('Queuing request', { requestId: 'a' });
+  log.warn('Request timed out', { requestId: 'b', timeoutMs: 2000 });
+  log.withTag('PDPRequestQueue').error('Error decoding plan response');
+
+  expect(events).toMatchObject([
+    {
+      level: 'warn',
+      tag: 'CerbosProvider',
+      message: 'Request timed out',
+      requestId: 'b',
+      fields: { timeoutMs: 2000 },
+    },
+    { level: 'error', tag: 'PDPRequestQueue', requestId: undefined },
+  ]);
+});
+
+it(`drops everything when silent`, () => {
+  const sink = jest.fn();
+  const log = createLogger('CerbosWebview', { level: 'silent', sink });
+
+  log.error('Failed to initialize Cerbos Embedded PDP');
+
+  expect(log.enabled('error')).toBe(false);
+  expect(sink).not.toHaveBeenCalled();
+});
@@ -0,0 +1,8 @@
+import { latencyPercentiles } from '../Metrics';
+
+it(`computes latency percentiles from unsorted samples`, () => {
+  const samples = Array.from({ length: 100 }, (_, i) => 100 - i);
+
+  expect(latencyPercentiles(samples)).toEqual({ p50: 50, p95: 95, p99: 99 });
+  expect(latencyPercentiles([])).toEqual({ p50: 0, p95: 0, p99: 0 });
+});
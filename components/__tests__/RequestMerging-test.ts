@@ -0,0 +1,71 @@
+import { ResourceCheck } from '@cerbos/core';
+import { CheckResourcesResponse_ResultEntry } from '@cerbos/embedded/lib/protobuf/cerbos/response/v1/response';
+import { mergeRequests, splitResponse } from '../RequestMerging';
+
+const alice = { id: 'alice', roles: ['USER'], attr: {} };
+const ian = { id: 'ian', roles: ['ADMIN'], attr: {} };
+const doc = (id: string) => ({ kind: 'resource', id, attr: {} });
+const result = (id: string): CheckResourcesResponse_ResultEntry => ({
+  resource: { id, kind: 'resource', policyVersion: 'default', scope: '' },
+  actions: {},
+  validationErrors: [],
+  meta: undefined,
+  outputs: [],
+});
+
+it(`merges requests that share a principal`, () => {
+  const merged = mergeRequests(
+    [
+      {
+        requestId: '1',
+        principal: alice,
+        resources: [{ resource: doc('a'), actions: ['read'] }],
+      },
+      {
+        requestId: '2',
+        principal: ian,
+        resources: [{ resource: doc('b'), actions: ['read'] }],
+      },
+      {
+        requestId: '3',
+        principal: alice,
+        resources: [{ resource: doc('c'), actions: ['read'] }],
+      },
+    ],
+    () => 'merged'
+  );
+
+  expect(merged).toHaveLength(2);
+  expect(merged[0].request.requestId).toEqual('merged');
+  expect(
+    merged[0].request.resources.map((r: ResourceCheck) => r.resource.id)
+  ).toEqual(['a', 'c']);
+  expect(merged[0].parts.map((p) => p.requestId)).toEqual(['1', '3']);
+  expect(merged[1].request.requestId).toEqual('2');
+});
+
+it(`splits a merged response back per request`, () => {
+  const responses = splitResponse(
+    {
+      requestId: 'merged',
+      cerbosCallId: 'call',
+      results: [result('a'), result('b'), result('c')],
+    },
+    [
+      { requestId: '1', resourceCount: 2 },
+      { requestId: '2', resourceCount: 1 },
+    ]
+  );
+
+  expect(responses.map((r) => r.requestId)).toEqual(['1', '2']);
+  expect(
+    responses[0].results.map(
+      (r: CheckResourcesResponse_ResultEntry) => r.resource?.id
+    )
+  ).toEqual(['a', 'b']);
+  expect(
+    responses[1].results.map(
+      (r: CheckResourcesResponse_ResultEntry) => r.resource?.id
+    )
+  ).toEqual(['c']);
+});
@@ -0,0 +1,52 @@
+import {
+  CheckResourcesResponse,
+  CheckResourcesResult,
+  Effect,
+  ValidationErrorSource,
+} from '@cerbos/core';
+import { outputsOf, validationErrorsOf } from '../ResponseHelpers';
+
+const response = new CheckResourcesResponse({
+  cerbosCallId: 'call',
+  requestId: '1',
+  results: [
+    new CheckResourcesResult({
+      resource: {
+        kind: 'resource',
+        id: 'a',
+        policyVersion: 'default',
+        scope: '',
+      },
+      actions: { read: Effect.ALLOW },
+      validationErrors: [
+        {
+          path: '/owner',
+          message: 'required',
+          source: ValidationErrorSource.RESOURCE,
+        },
+      ],
+      metadata: undefined,
+      outputs: [
+        { source: 'resource.resource.vdefault#read', value: { hint: 'owner' } },
+      ],
+    }),
+  ],
+});
+
+it(`returns the outputs of a resource keyed by source`, () => {
+  expect(outputsOf(response, { kind: 'resource', id: 'a' })).toEqual({
+    'resource.resource.vdefault#read': { hint: 'owner' },
+  });
+  expect(outputsOf(response, { kind: 'resource', id: 'b' })).toEqual({});
+});
+
+it(`collects validation errors with their resource`, () => {
+  expect(validationErrorsOf(response)).toEqual([
+    {
+      path: '/owner',
+      message: 'required',
+      source: ValidationErrorSource.RESOURCE,
+      resource: { kind: 'resource', id: 'a' },
+    },
+  ]);
+});
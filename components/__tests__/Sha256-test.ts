@@ -0,0 +1,24 @@
+import { sha256Hex } from '../Sha256';
+
+// Test vectors from NIST FIPS 180-2 and the NIST CAVP examples
+it(`matches the NIST SHA-256 test vectors`, () => {
+  expect(sha256Hex('')).toBe(
+    'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+  );
+  expect(sha256Hex('abc')).toBe(
+    'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+  );
+  // 56 bytes, so the padding spills into a second block
+  expect(
+    sha256Hex('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')
+  ).toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  // 112 bytes, longer than one block
+  expect(
+    sha256Hex(
+      'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu'
+    )
+  ).toBe('cf5b16a778af8380036ce59e7b0492370b249b11e8f07a51afac45037afee9d1');
+  expect(sha256Hex(new Uint8Array(1000000).fill(0x61))).toBe(
+    'cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0'
+  );
+});